@@ -58,6 +58,9 @@ contract DeployScript is Script {
 
         // Deploy StakerWallet with relayer address
         // Check if RELAYER_ADDRESS is set, otherwise use deployer as relayer
+        // For a relayer with batching, deploy the RelayBatchExecutor first
+        // (DeployRelayBatchExecutor.s.sol, RELAYER_ADDRESS = the relayer's account) and run
+        // this with RELAYER_ADDRESS = the executor. The relayer refuses batching otherwise.
         address relayerAddress;
         try vm.envAddress("RELAYER_ADDRESS") returns (address addr) {
             relayerAddress = addr;
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import {Script, console} from "forge-std/Script.sol";
+import {CommitmentStore} from "../src/CommitmentStore.sol";
+
+contract DeployCommitmentStoreScript is Script {
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        // Deploy CommitmentStore; anyone can submit, but only commitments the EOA signed
+        CommitmentStore commitmentStore = new CommitmentStore();
+
+        console.log("CommitmentStore deployed at:", address(commitmentStore));
+        console.log("  Max commitment TTL:", commitmentStore.MAX_COMMITMENT_TTL());
+
+        vm.stopBroadcast();
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import {Script, console} from "forge-std/Script.sol";
+import {RelayBatchExecutor} from "../src/RelayBatchExecutor.sol";
+
+contract DeployRelayBatchExecutorScript is Script {
+    function run() external {
+        uint256 deployerPrivateKey = vm.envUint("PRIVATE_KEY");
+        address relayerAddress = vm.envAddress("RELAYER_ADDRESS");
+
+        vm.startBroadcast(deployerPrivateKey);
+
+        // Deploy RelayBatchExecutor callable only by the relayer. Deploy the StakerWallet
+        // with this executor's address as RELAYER_ADDRESS to relay through batches.
+        RelayBatchExecutor executor = new RelayBatchExecutor(relayerAddress);
+
+        console.log("RelayBatchExecutor deployed at:", address(executor));
+        console.log("  Relayer:", executor.relayer());
+
+        vm.stopBroadcast();
+    }
+}
@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+
+/**
+ * @title CommitmentStore
+ * @author StakeChoices Team
+ * @notice Stores operation commitments for EIP-7702 delegated EOAs, keyed by (user, nonce)
+ * @dev Anyone may submit a commitment, but only with the user's EIP-191 signature over it, so a
+ *      relayer can pay the gas without choosing what is committed. Commitments expire, after which
+ *      the slot can be written again; the authorization nonce they are bound to is used up when the
+ *      authorization lands, which is what consumes a commitment
+ */
+contract CommitmentStore {
+    // ============ Constants ============
+
+    /// @notice Longest a commitment may stay valid
+    uint256 public constant MAX_COMMITMENT_TTL = 1 hours;
+
+    // ============ Structs ============
+
+    struct Commitment {
+        bytes32 commitment;
+        uint64 expiresAt;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice Commitment for a user at the authorization nonce it will be used with
+    mapping(address user => mapping(uint256 nonce => Commitment)) public commitments;
+
+    // ============ Events ============
+
+    /**
+     * @notice Emitted when a commitment is stored
+     * @param user The EOA the commitment belongs to
+     * @param nonce The EIP-7702 authorization nonce the commitment is bound to
+     * @param commitment Hash of the operation parameters
+     * @param expiresAt Timestamp from which the commitment no longer counts
+     */
+    event CommitmentStored(address indexed user, uint256 indexed nonce, bytes32 commitment, uint256 expiresAt);
+
+    // ============ Errors ============
+
+    error EmptyCommitment();
+    error InvalidExpiry();
+    error InvalidSignature();
+    error CommitmentAlreadyExists();
+
+    // ============ Commitment Functions ============
+
+    /**
+     * @notice Store a commitment signed by the user for a specific nonce
+     * @dev Reverts while an unexpired commitment is stored for (user, nonce)
+     * @param user The EOA that will delegate via EIP-7702
+     * @param nonce The authorization nonce the commitment is bound to
+     * @param commitment Hash of the operation parameters
+     * @param expiresAt Timestamp the commitment expires at, at most MAX_COMMITMENT_TTL away
+     * @param signature The user's EIP-191 signature over commitmentDigest(user, nonce, commitment, expiresAt)
+     */
+    function store(address user, uint256 nonce, bytes32 commitment, uint256 expiresAt, bytes calldata signature)
+        external
+    {
+        if (commitment == bytes32(0)) revert EmptyCommitment();
+        if (expiresAt <= block.timestamp || expiresAt > block.timestamp + MAX_COMMITMENT_TTL) revert InvalidExpiry();
+
+        bytes32 digest = MessageHashUtils.toEthSignedMessageHash(commitmentDigest(user, nonce, commitment, expiresAt));
+        (address signer, ECDSA.RecoverError recoverError,) = ECDSA.tryRecover(digest, signature);
+        if (recoverError != ECDSA.RecoverError.NoError || signer != user) revert InvalidSignature();
+
+        if (commitments[user][nonce].expiresAt > block.timestamp) revert CommitmentAlreadyExists();
+
+        commitments[user][nonce] = Commitment(commitment, uint64(expiresAt));
+        emit CommitmentStored(user, nonce, commitment, expiresAt);
+    }
+
+    /**
+     * @notice Get the unexpired commitment for a user at a specific nonce
+     * @param user The user address
+     * @param nonce The authorization nonce
+     * @return The commitment hash (0x0 if not set or expired)
+     */
+    function getCommitment(address user, uint256 nonce) external view returns (bytes32) {
+        Commitment storage stored = commitments[user][nonce];
+        return stored.expiresAt > block.timestamp ? stored.commitment : bytes32(0);
+    }
+
+    /**
+     * @notice Message the user signs (as raw EIP-191 bytes) to approve a commitment
+     * @param user The EOA the commitment belongs to
+     * @param nonce The authorization nonce the commitment is bound to
+     * @param commitment Hash of the operation parameters
+     * @param expiresAt Timestamp the commitment expires at
+     * @return keccak256(abi.encode(store, chainId, user, nonce, commitment, expiresAt))
+     */
+    function commitmentDigest(address user, uint256 nonce, bytes32 commitment, uint256 expiresAt)
+        public
+        view
+        returns (bytes32)
+    {
+        return keccak256(abi.encode(address(this), block.chainid, user, nonce, commitment, expiresAt));
+    }
+}
@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/**
+ * @title RelayBatchExecutor
+ * @author StakeChoices Team
+ * @notice Runs several delegated EOAs' StakerWallet calls in one relayer transaction
+ * @dev Deploy StakerWallet with this contract as its relayer. Each call is isolated: a revert
+ *      is reported in CallExecuted instead of reverting the batch, so one user's failure
+ *      doesn't cost the others their stake
+ */
+contract RelayBatchExecutor {
+    // ============ Types ============
+
+    /// @notice One call in a batch, usually addStakes / removeStakes on a delegated EOA
+    struct Call {
+        address target;
+        bytes data;
+    }
+
+    // ============ Immutable Config ============
+
+    /// @notice Address of the relayer allowed to submit batches
+    address public immutable relayer;
+
+    // ============ Events ============
+
+    /**
+     * @notice Emitted for every call in a batch, in order
+     * @param index Position of the call in the batch
+     * @param target The EOA (or contract) that was called
+     * @param success Whether the call succeeded
+     * @param returnData Return data, or the revert data when the call failed
+     */
+    event CallExecuted(uint256 indexed index, address indexed target, bool success, bytes returnData);
+
+    // ============ Errors ============
+
+    error OnlyRelayer();
+    error ZeroAddress();
+
+    // ============ Modifiers ============
+
+    modifier onlyRelayer() {
+        if (msg.sender != relayer) revert OnlyRelayer();
+        _;
+    }
+
+    // ============ Constructor ============
+
+    /**
+     * @notice Initialize the RelayBatchExecutor with its relayer
+     * @param _relayer Address of the authorized relayer
+     */
+    constructor(address _relayer) {
+        if (_relayer == address(0)) revert ZeroAddress();
+        relayer = _relayer;
+    }
+
+    // ============ Batch Functions ============
+
+    /**
+     * @notice Execute a batch of calls, continuing past failed ones
+     * @dev A target without code counts as failed: when an EIP-7702 authorization in the
+     *      transaction is invalid the EOA isn't delegated, and a call to it would "succeed"
+     * @param calls Calls to execute, in order
+     * @return successes Whether each call succeeded
+     */
+    function executeBatch(Call[] calldata calls) external onlyRelayer returns (bool[] memory successes) {
+        successes = new bool[](calls.length);
+        for (uint256 i = 0; i < calls.length; ++i) {
+            address target = calls[i].target;
+            if (target.code.length == 0) {
+                emit CallExecuted(i, target, false, "");
+                continue;
+            }
+
+            (bool success, bytes memory returnData) = target.call(calls[i].data);
+            successes[i] = success;
+            emit CallExecuted(i, target, success, returnData);
+        }
+    }
+}
@@ -0,0 +1,182 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import {Test} from "forge-std/Test.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {CommitmentStore} from "../src/CommitmentStore.sol";
+
+contract CommitmentStoreTest is Test {
+    CommitmentStore public store;
+
+    uint256 public userKey = 0xA11CE;
+    address public user = vm.addr(0xA11CE);
+    uint256 public attackerKey = 0xBAD;
+    address public attacker = vm.addr(0xBAD);
+    address public relayer = address(0x9999);
+
+    bytes32 public constant COMMITMENT = keccak256("commitment");
+    uint256 public constant TTL = 10 minutes;
+
+    event CommitmentStored(address indexed user, uint256 indexed nonce, bytes32 commitment, uint256 expiresAt);
+
+    function setUp() public {
+        store = new CommitmentStore();
+    }
+
+    // Helper to sign a commitment the way a card does, as a raw EIP-191 message
+    function _sign(uint256 key, address owner, uint256 nonce, bytes32 commitment, uint256 expiresAt)
+        internal
+        view
+        returns (bytes memory)
+    {
+        bytes32 digest =
+            MessageHashUtils.toEthSignedMessageHash(store.commitmentDigest(owner, nonce, commitment, expiresAt));
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(key, digest);
+        return abi.encodePacked(r, s, v);
+    }
+
+    // Helper to store a commitment signed by its owner, submitted by the relayer
+    function _store(uint256 key, address owner, uint256 nonce, bytes32 commitment) internal {
+        uint256 expiresAt = block.timestamp + TTL;
+        vm.prank(relayer);
+        store.store(owner, nonce, commitment, expiresAt, _sign(key, owner, nonce, commitment, expiresAt));
+    }
+
+    function testStoreCommitment() public {
+        uint256 expiresAt = block.timestamp + TTL;
+        bytes memory signature = _sign(userKey, user, 7, COMMITMENT, expiresAt);
+
+        vm.expectEmit(true, true, false, true);
+        emit CommitmentStored(user, 7, COMMITMENT, expiresAt);
+
+        vm.prank(relayer);
+        store.store(user, 7, COMMITMENT, expiresAt, signature);
+
+        assertEq(store.getCommitment(user, 7), COMMITMENT);
+        (bytes32 stored, uint64 storedExpiry) = store.commitments(user, 7);
+        assertEq(stored, COMMITMENT);
+        assertEq(storedExpiry, expiresAt);
+    }
+
+    function testAnyoneCanSubmitASignedCommitment() public {
+        uint256 expiresAt = block.timestamp + TTL;
+        bytes memory signature = _sign(userKey, user, 0, COMMITMENT, expiresAt);
+
+        vm.prank(user);
+        store.store(user, 0, COMMITMENT, expiresAt, signature);
+
+        assertEq(store.getCommitment(user, 0), COMMITMENT);
+    }
+
+    function testUnsetCommitmentIsZero() public view {
+        assertEq(store.getCommitment(user, 0), bytes32(0));
+    }
+
+    function testStoreRejectsOtherSigner() public {
+        uint256 expiresAt = block.timestamp + TTL;
+        bytes memory signature = _sign(attackerKey, user, 0, COMMITMENT, expiresAt);
+
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.InvalidSignature.selector);
+        store.store(user, 0, COMMITMENT, expiresAt, signature);
+    }
+
+    function testStoreRejectsSignatureForOtherCommitment() public {
+        uint256 expiresAt = block.timestamp + TTL;
+        bytes memory signature = _sign(userKey, user, 0, COMMITMENT, expiresAt);
+
+        vm.startPrank(relayer);
+        vm.expectRevert(CommitmentStore.InvalidSignature.selector);
+        store.store(user, 0, keccak256("tampered"), expiresAt, signature);
+
+        vm.expectRevert(CommitmentStore.InvalidSignature.selector);
+        store.store(user, 1, COMMITMENT, expiresAt, signature);
+
+        vm.expectRevert(CommitmentStore.InvalidSignature.selector);
+        store.store(user, 0, COMMITMENT, expiresAt + 1, signature);
+        vm.stopPrank();
+    }
+
+    function testStoreRejectsMalformedSignature() public {
+        uint256 expiresAt = block.timestamp + TTL;
+
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.InvalidSignature.selector);
+        store.store(user, 0, COMMITMENT, expiresAt, hex"1234");
+    }
+
+    function testStoreRejectsEmptyCommitment() public {
+        uint256 expiresAt = block.timestamp + TTL;
+        bytes memory signature = _sign(userKey, user, 0, bytes32(0), expiresAt);
+
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.EmptyCommitment.selector);
+        store.store(user, 0, bytes32(0), expiresAt, signature);
+    }
+
+    function testStoreRejectsBadExpiry() public {
+        uint256 tooLate = block.timestamp + store.MAX_COMMITMENT_TTL() + 1;
+        bytes memory signature = _sign(userKey, user, 0, COMMITMENT, tooLate);
+
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.InvalidExpiry.selector);
+        store.store(user, 0, COMMITMENT, tooLate, signature);
+
+        uint256 past = block.timestamp;
+        signature = _sign(userKey, user, 0, COMMITMENT, past);
+
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.InvalidExpiry.selector);
+        store.store(user, 0, COMMITMENT, past, signature);
+    }
+
+    function testCommitmentCannotBeOverwrittenBeforeExpiry() public {
+        _store(userKey, user, 0, COMMITMENT);
+
+        uint256 expiresAt = block.timestamp + TTL;
+        bytes32 replacement = keccak256("replacement");
+        bytes memory signature = _sign(userKey, user, 0, replacement, expiresAt);
+
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.CommitmentAlreadyExists.selector);
+        store.store(user, 0, replacement, expiresAt, signature);
+
+        assertEq(store.getCommitment(user, 0), COMMITMENT);
+    }
+
+    function testExpiredCommitmentReadsZeroAndCanBeReplaced() public {
+        _store(userKey, user, 0, COMMITMENT);
+
+        vm.warp(block.timestamp + TTL);
+        assertEq(store.getCommitment(user, 0), bytes32(0));
+
+        bytes32 replacement = keccak256("replacement");
+        _store(userKey, user, 0, replacement);
+        assertEq(store.getCommitment(user, 0), replacement);
+    }
+
+    function testSignatureIsBoundToStoreAndChain() public {
+        uint256 expiresAt = block.timestamp + TTL;
+        bytes memory signature = _sign(userKey, user, 0, COMMITMENT, expiresAt);
+
+        CommitmentStore other = new CommitmentStore();
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.InvalidSignature.selector);
+        other.store(user, 0, COMMITMENT, expiresAt, signature);
+
+        vm.chainId(block.chainid + 1);
+        vm.prank(relayer);
+        vm.expectRevert(CommitmentStore.InvalidSignature.selector);
+        store.store(user, 0, COMMITMENT, expiresAt, signature);
+    }
+
+    function testCommitmentsAreScopedByUserAndNonce() public {
+        _store(userKey, user, 0, COMMITMENT);
+        _store(userKey, user, 1, keccak256("next"));
+        _store(attackerKey, attacker, 0, keccak256("other user"));
+
+        assertEq(store.getCommitment(user, 0), COMMITMENT);
+        assertEq(store.getCommitment(user, 1), keccak256("next"));
+        assertEq(store.getCommitment(attacker, 0), keccak256("other user"));
+    }
+}
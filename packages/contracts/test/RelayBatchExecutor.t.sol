@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import {Test} from "forge-std/Test.sol";
+import {RelayBatchExecutor} from "../src/RelayBatchExecutor.sol";
+import {StakerWallet} from "../src/StakerWallet.sol";
+import {StakeChoicesERC6909} from "../src/StakeChoicesERC6909.sol";
+import {StakeChoicesFactory} from "../src/StakeChoicesFactory.sol";
+import {TestERC20} from "../src/TestERC20.sol";
+
+contract RelayBatchExecutorTest is Test {
+    RelayBatchExecutor public executor;
+    StakerWallet public wallet;
+    StakeChoicesERC6909 public session;
+    TestERC20 public token;
+
+    address public alice = address(0x1234);
+    address public bob = address(0x5678);
+    address public relayer = address(0x9999);
+    address public attacker = address(0x6666);
+
+    event CallExecuted(uint256 indexed index, address indexed target, bool success, bytes returnData);
+
+    function setUp() public {
+        token = new TestERC20();
+        StakeChoicesFactory factory = new StakeChoicesFactory();
+        session = StakeChoicesERC6909(factory.deployToken(address(token), "Test Session"));
+
+        // The StakerWallet only accepts calls from the executor, which only accepts the relayer
+        executor = new RelayBatchExecutor(relayer);
+        wallet = new StakerWallet(address(token), address(session), address(executor), 100 ether);
+
+        // Stand-in for EIP-7702 delegation: give both EOAs the StakerWallet's code
+        vm.etch(alice, address(wallet).code);
+        vm.etch(bob, address(wallet).code);
+
+        token.mint(alice, 1000 ether);
+        token.mint(bob, 1000 ether);
+    }
+
+    // Helper to build an addStakes call for one choice
+    function _stakeCall(address eoa, uint256 choiceId, uint256 amount)
+        private
+        pure
+        returns (RelayBatchExecutor.Call memory)
+    {
+        uint256[] memory choiceIds = new uint256[](1);
+        uint256[] memory amounts = new uint256[](1);
+        choiceIds[0] = choiceId;
+        amounts[0] = amount;
+        return RelayBatchExecutor.Call(eoa, abi.encodeCall(StakerWallet.addStakes, (choiceIds, amounts)));
+    }
+
+    function testImmutableConfig() public view {
+        assertEq(executor.relayer(), relayer);
+    }
+
+    function testConstructorRejectsZeroRelayer() public {
+        vm.expectRevert(RelayBatchExecutor.ZeroAddress.selector);
+        new RelayBatchExecutor(address(0));
+    }
+
+    function testExecuteBatchStakesForEachEoa() public {
+        RelayBatchExecutor.Call[] memory calls = new RelayBatchExecutor.Call[](2);
+        calls[0] = _stakeCall(alice, 1, 10 ether);
+        calls[1] = _stakeCall(bob, 2, 20 ether);
+
+        vm.prank(relayer);
+        bool[] memory successes = executor.executeBatch(calls);
+
+        assertTrue(successes[0]);
+        assertTrue(successes[1]);
+        assertEq(session.balanceOf(alice, 1), 10 ether);
+        assertEq(session.balanceOf(bob, 2), 20 ether);
+        assertEq(token.balanceOf(alice), 990 ether);
+        assertEq(token.balanceOf(bob), 980 ether);
+    }
+
+    function testFailedCallDoesNotRevertBatch() public {
+        RelayBatchExecutor.Call[] memory calls = new RelayBatchExecutor.Call[](2);
+        calls[0] = _stakeCall(alice, 1, 500 ether); // Over maxStakePerTx
+        calls[1] = _stakeCall(bob, 2, 20 ether);
+
+        vm.expectEmit(true, true, false, true);
+        emit CallExecuted(0, alice, false, abi.encodeWithSelector(StakerWallet.AmountTooHigh.selector));
+        vm.expectEmit(true, true, false, false);
+        emit CallExecuted(1, bob, true, "");
+
+        vm.prank(relayer);
+        bool[] memory successes = executor.executeBatch(calls);
+
+        assertFalse(successes[0]);
+        assertTrue(successes[1]);
+        assertEq(session.balanceOf(alice, 1), 0);
+        assertEq(token.balanceOf(alice), 1000 ether);
+        assertEq(session.balanceOf(bob, 2), 20 ether);
+    }
+
+    function testTargetWithoutCodeFails() public {
+        address undelegated = address(0xBEEF);
+        RelayBatchExecutor.Call[] memory calls = new RelayBatchExecutor.Call[](1);
+        calls[0] = _stakeCall(undelegated, 1, 10 ether);
+
+        vm.expectEmit(true, true, false, true);
+        emit CallExecuted(0, undelegated, false, "");
+
+        vm.prank(relayer);
+        bool[] memory successes = executor.executeBatch(calls);
+
+        assertFalse(successes[0]);
+    }
+
+    function testExecuteBatchOnlyRelayer() public {
+        RelayBatchExecutor.Call[] memory calls = new RelayBatchExecutor.Call[](1);
+        calls[0] = _stakeCall(alice, 1, 10 ether);
+
+        vm.prank(attacker);
+        vm.expectRevert(RelayBatchExecutor.OnlyRelayer.selector);
+        executor.executeBatch(calls);
+    }
+
+    function testEoaRejectsDirectRelayerCall() public {
+        RelayBatchExecutor.Call memory call = _stakeCall(alice, 1, 10 ether);
+
+        // With the executor as the StakerWallet's relayer, the relayer EOA can't bypass it
+        vm.prank(relayer);
+        (bool success,) = alice.call(call.data);
+        assertFalse(success);
+    }
+}
@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { NFCErrorBoundary } from './components/NFCErrorBoundary';
 import { NFCPrompt } from './components/NFCPrompt';
 import { DemonSlayer } from './components/DemonSlayer';
+import { AdminPanel } from './components/AdminPanel';
 import { readNFCConnection } from './lib/nfcResource';
 import { wagmiConfig } from './config/wagmi';
 import './App.css';
@@ -32,19 +33,6 @@ function HomePage() {
   );
 }
 
-function AdminPage() {
-  return (
-    <div style={{
-      color: '#ff0000',
-      textAlign: 'center',
-      marginTop: '100px',
-      fontSize: '2rem'
-    }}>
-      TODO: Admin panel
-    </div>
-  );
-}
-
 function App() {
   return (
     <WagmiProvider config={wagmiConfig}>
@@ -52,7 +40,7 @@ function App() {
         <HashRouter>
           <Routes>
             <Route path="/" element={<HomePage />} />
-            <Route path="/admin" element={<AdminPage />} />
+            <Route path="/admin" element={<AdminPanel />} />
           </Routes>
         </HashRouter>
       </QueryClientProvider>
@@ -0,0 +1,553 @@
+import { STAKE_CHOICES_FACTORY_ABI } from "@tap-stake/sdk";
+import { useCallback, useEffect, useState } from "react";
+import {
+  isAddress,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type TransactionReceipt,
+} from "viem";
+import { optimismSepolia } from "viem/chains";
+import {
+  useAccount,
+  useBytecode,
+  useConnect,
+  useDisconnect,
+  usePublicClient,
+  useReadContract,
+  useSwitchChain,
+  useWriteContract,
+} from "wagmi";
+import { CONTRACTS } from "../config/contracts";
+import { STAKE_CHOICES_ABI } from "../lib/choices";
+import {
+  computeChoiceId,
+  loadRegisteredChoices,
+  loadSessions,
+  parseSalt,
+  type RegisteredChoice,
+  type Session,
+} from "../lib/sessions";
+import "./AdminPanel.css";
+
+const EXPLORER_URL = "https://sepolia-optimism.etherscan.io";
+
+// Helper to pull the readable part out of a viem or wallet error
+const errorMessage = (err: unknown): string =>
+  (err as { shortMessage?: string }).shortMessage ??
+  (err instanceof Error ? err.message : "Transaction failed");
+
+// Send a transaction from the operator wallet and wait for it to be mined
+function useOperatorTransaction() {
+  const publicClient = usePublicClient({ chainId: optimismSepolia.id });
+  const [pending, setPending] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = useCallback(
+    async (
+      label: string,
+      write: () => Promise<Hex>,
+    ): Promise<TransactionReceipt | null> => {
+      setPending(true);
+      setError(null);
+      setStatus(`${label}: confirm in your wallet…`);
+      try {
+        const hash = await write();
+        setStatus(`${label}: waiting for ${hash}…`);
+        const receipt = await publicClient!.waitForTransactionReceipt({
+          hash,
+        });
+        if (receipt.status !== "success") {
+          throw new Error(`${label} reverted in ${hash}`);
+        }
+        console.log(`⚔️ Admin: ${label} mined`, hash);
+        setStatus(null);
+        return receipt;
+      } catch (err) {
+        console.error(`⚔️ Admin: ${label} failed:`, err);
+        setStatus(null);
+        setError(errorMessage(err));
+        return null;
+      } finally {
+        setPending(false);
+      }
+    },
+    [publicClient],
+  );
+
+  return { send, pending, status, error };
+}
+
+interface DeploySessionProps {
+  onDeployed: () => void;
+}
+
+// Deploy a StakeChoicesERC6909 session through the factory, optionally at a CREATE2 address
+function DeploySession({ onDeployed }: DeploySessionProps) {
+  const { writeContractAsync } = useWriteContract();
+  const { send, pending, status, error } = useOperatorTransaction();
+  const [stakingToken, setStakingToken] = useState<string>(
+    CONTRACTS.testToken,
+  );
+  const [name, setName] = useState("");
+  const [deterministic, setDeterministic] = useState(false);
+  const [saltInput, setSaltInput] = useState("");
+  const [deployed, setDeployed] = useState<Address | null>(null);
+
+  const salt = deterministic ? parseSalt(saltInput) : null;
+  const { data: predicted } = useReadContract({
+    address: CONTRACTS.stakeChoicesFactory,
+    abi: STAKE_CHOICES_FACTORY_ABI,
+    functionName: "predictTokenAddress",
+    args: salt ? [salt] : undefined,
+    query: { enabled: salt !== null },
+  });
+  // A salt can only be used once; CREATE2 onto existing code reverts
+  const { data: predictedCode } = useBytecode({
+    address: predicted,
+    query: { enabled: predicted !== undefined },
+  });
+  const saltTaken = predictedCode !== undefined && predictedCode !== "0x";
+
+  const invalid =
+    !isAddress(stakingToken) ||
+    !name.trim() ||
+    (deterministic && (salt === null || saltTaken));
+
+  const handleDeploy = async () => {
+    setDeployed(null);
+    const receipt = await send("Deploy session", () =>
+      salt
+        ? writeContractAsync({
+            address: CONTRACTS.stakeChoicesFactory,
+            abi: STAKE_CHOICES_FACTORY_ABI,
+            functionName: "deployTokenDeterministic",
+            args: [stakingToken as Address, name.trim(), salt],
+          })
+        : writeContractAsync({
+            address: CONTRACTS.stakeChoicesFactory,
+            abi: STAKE_CHOICES_FACTORY_ABI,
+            functionName: "deployToken",
+            args: [stakingToken as Address, name.trim()],
+          }),
+    );
+    if (!receipt) return;
+    const [event] = parseEventLogs({
+      abi: STAKE_CHOICES_FACTORY_ABI,
+      eventName: "TokenDeployed",
+      logs: receipt.logs,
+    });
+    setDeployed(event?.args.tokenAddress ?? null);
+    onDeployed();
+  };
+
+  return (
+    <div className="tech-card admin-form">
+      <div className="tech-label">DEPLOY A SESSION</div>
+      <label>
+        Staking token
+        <input
+          value={stakingToken}
+          onChange={(event) => setStakingToken(event.target.value)}
+        />
+      </label>
+      <label>
+        Session name
+        <input
+          value={name}
+          placeholder="Staked GTC"
+          onChange={(event) => setName(event.target.value)}
+        />
+      </label>
+      <label className="admin-checkbox">
+        <input
+          type="checkbox"
+          checked={deterministic}
+          onChange={(event) => setDeterministic(event.target.checked)}
+        />
+        Deterministic address (deployTokenDeterministic)
+      </label>
+      {deterministic && (
+        <>
+          <label>
+            Salt (hex, number or text)
+            <input
+              value={saltInput}
+              placeholder="1"
+              onChange={(event) => setSaltInput(event.target.value)}
+            />
+          </label>
+          {saltInput && !salt && (
+            <p className="admin-warning">Salt must fit in 32 bytes</p>
+          )}
+          {predicted && (
+            <p className="admin-note">
+              Predicted address: <code>{predicted}</code>
+              {saltTaken && (
+                <span className="admin-warning">
+                  {" "}
+                  — already deployed, pick another salt
+                </span>
+              )}
+            </p>
+          )}
+        </>
+      )}
+      <button
+        onClick={handleDeploy}
+        className="btn-demon"
+        disabled={pending || invalid}
+      >
+        DEPLOY SESSION
+      </button>
+      {status && <p className="admin-note">{status}</p>}
+      {error && <div className="blood-box">{error}</div>}
+      {deployed && (
+        <p className="admin-note">
+          Deployed at{" "}
+          <a
+            href={`${EXPLORER_URL}/address/${deployed}`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {deployed}
+          </a>
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface RegisterChoiceProps {
+  operator: Address;
+  sessions: Session[];
+  onRegistered: () => void;
+}
+
+// Register a choice's metadata on a session; its ID comes from the operator and salt
+function RegisterChoice({
+  operator,
+  sessions,
+  onRegistered,
+}: RegisterChoiceProps) {
+  const { writeContractAsync } = useWriteContract();
+  const { send, pending, status, error } = useOperatorTransaction();
+  const [session, setSession] = useState<string>(CONTRACTS.stakeChoicesToken);
+  const [saltInput, setSaltInput] = useState("");
+  const [name, setName] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [uri, setUri] = useState("");
+  const [registered, setRegistered] = useState<string | null>(null);
+
+  const salt = parseSalt(saltInput);
+  const choiceId = salt ? computeChoiceId(operator, salt) : null;
+  const { data: existingName } = useReadContract({
+    address: session as Address,
+    abi: STAKE_CHOICES_ABI,
+    functionName: "name",
+    args: choiceId !== null ? [choiceId] : undefined,
+    query: { enabled: choiceId !== null && isAddress(session) },
+  });
+  // Metadata can be set once per ID
+  const alreadyRegistered = !!existingName;
+
+  const handleRegister = async () => {
+    if (!salt || choiceId === null) return;
+    setRegistered(null);
+    const receipt = await send("Register choice", () =>
+      writeContractAsync({
+        address: session as Address,
+        abi: STAKE_CHOICES_ABI,
+        functionName: "registerChoice",
+        args: [salt, name.trim(), symbol.trim(), uri.trim()],
+      }),
+    );
+    if (!receipt) return;
+    setRegistered(choiceId.toString());
+    onRegistered();
+  };
+
+  return (
+    <div className="tech-card admin-form">
+      <div className="tech-label">REGISTER A CHOICE</div>
+      <label>
+        Session
+        <select
+          value={session}
+          onChange={(event) => setSession(event.target.value)}
+        >
+          {!sessions.some(
+            (s) => s.address.toLowerCase() === session.toLowerCase(),
+          ) && <option value={session}>{session}</option>}
+          {sessions.map((s) => (
+            <option key={s.address} value={s.address}>
+              {s.name || "Unnamed"} — {s.address}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Salt (hex, number or text)
+        <input
+          value={saltInput}
+          placeholder="1"
+          onChange={(event) => setSaltInput(event.target.value)}
+        />
+      </label>
+      <label>
+        Name
+        <input
+          value={name}
+          placeholder="Staked GTC - Choice 1"
+          onChange={(event) => setName(event.target.value)}
+        />
+      </label>
+      <label>
+        Symbol
+        <input
+          value={symbol}
+          placeholder="🥩GTC-C1"
+          onChange={(event) => setSymbol(event.target.value)}
+        />
+      </label>
+      <label>
+        URI
+        <input
+          value={uri}
+          placeholder="https://…"
+          onChange={(event) => setUri(event.target.value)}
+        />
+      </label>
+      {saltInput && !salt && (
+        <p className="admin-warning">Salt must fit in 32 bytes</p>
+      )}
+      {choiceId !== null && (
+        <p className="admin-note">
+          Choice ID: <code>{choiceId.toString()}</code>
+          {alreadyRegistered && (
+            <span className="admin-warning">
+              {" "}
+              — already registered as “{existingName}”
+            </span>
+          )}
+        </p>
+      )}
+      <button
+        onClick={handleRegister}
+        className="btn-demon"
+        disabled={
+          pending ||
+          !salt ||
+          !name.trim() ||
+          alreadyRegistered ||
+          !isAddress(session)
+        }
+      >
+        REGISTER CHOICE
+      </button>
+      {status && <p className="admin-note">{status}</p>}
+      {error && <div className="blood-box">{error}</div>}
+      {registered && (
+        <p className="admin-note">
+          Registered <code>{registered}</code>
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface SessionChoicesProps {
+  session: Session;
+  refreshKey: number;
+}
+
+// A session's registered choices, with the relayer config that approves them
+function SessionChoices({ session, refreshKey }: SessionChoicesProps) {
+  const publicClient = usePublicClient({ chainId: optimismSepolia.id });
+  const [choices, setChoices] = useState<RegisteredChoice[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!publicClient) return;
+    setError(null);
+    loadRegisteredChoices(publicClient, session.address, session.blockNumber)
+      .then(setChoices)
+      .catch((err) => {
+        console.error("⚔️ Admin: Failed to read choices:", err);
+        setError(errorMessage(err));
+      });
+  }, [publicClient, session, refreshKey]);
+
+  if (error) return <div className="blood-box">{error}</div>;
+  if (!choices) return <p className="admin-note">Reading choices…</p>;
+  if (choices.length === 0) {
+    return <p className="admin-note">No choices registered yet</p>;
+  }
+
+  const relayerConfig = JSON.stringify(
+    { approvedChoiceIds: choices.map((choice) => choice.id) },
+    null,
+    2,
+  );
+  return (
+    <>
+      <ul className="admin-choices">
+        {choices.map((choice) => (
+          <li key={choice.id}>
+            <span>{choice.name}</span>
+            <code>{choice.id}</code>
+          </li>
+        ))}
+      </ul>
+      <div className="admin-note">
+        For the chain's entry in the relayer's CHAIN_CONFIGS:
+      </div>
+      <pre className="admin-config">{relayerConfig}</pre>
+      <button
+        onClick={() => navigator.clipboard.writeText(relayerConfig)}
+        className="btn-demon btn-secondary"
+      >
+        COPY CHOICE IDS
+      </button>
+    </>
+  );
+}
+
+interface SessionListProps {
+  sessions: Session[] | null;
+  error: string | null;
+  refreshKey: number;
+}
+
+// Sessions the factory has deployed, from its TokenDeployed events
+function SessionList({ sessions, error, refreshKey }: SessionListProps) {
+  const [open, setOpen] = useState<Address | null>(null);
+
+  return (
+    <div className="tech-card">
+      <div className="tech-label">SESSIONS</div>
+      {error && <div className="blood-box">{error}</div>}
+      {!sessions && !error && <p className="admin-note">Reading sessions…</p>}
+      {sessions?.length === 0 && (
+        <p className="admin-note">The factory has not deployed any sessions</p>
+      )}
+      {sessions?.map((session) => (
+        <div key={session.address} className="admin-session">
+          <button
+            onClick={() =>
+              setOpen(open === session.address ? null : session.address)
+            }
+            className="admin-session-header"
+          >
+            <span>{session.name || "Unnamed"}</span>
+            <code>{session.address}</code>
+          </button>
+          <div className="admin-note">
+            Staking token <code>{session.stakingToken}</code> · block{" "}
+            {session.blockNumber.toString()}
+          </div>
+          {open === session.address && (
+            <SessionChoices session={session} refreshKey={refreshKey} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// /admin - deploy sessions and register choices from an operator wallet
+export function AdminPanel() {
+  const { address, chainId, isConnected } = useAccount();
+  const { connect, connectors, isPending, error: connectError } = useConnect();
+  const { disconnect } = useDisconnect();
+  const { switchChain } = useSwitchChain();
+  const publicClient = usePublicClient({ chainId: optimismSepolia.id });
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!publicClient) return;
+    setSessionsError(null);
+    loadSessions(
+      publicClient,
+      CONTRACTS.stakeChoicesFactory,
+      CONTRACTS.deployBlock,
+    )
+      .then(setSessions)
+      .catch((err) => {
+        console.error("⚔️ Admin: Failed to read sessions:", err);
+        setSessionsError(errorMessage(err));
+      });
+  }, [publicClient, refreshKey]);
+
+  const refresh = () => setRefreshKey((key) => key + 1);
+
+  return (
+    <div className="demon-container">
+      <header className="demon-header">
+        <h1 className="title">
+          <span>TAP</span>
+          <span>ADMIN</span>
+        </h1>
+      </header>
+
+      <main className="demon-main admin-main">
+        {!isConnected && (
+          <>
+            <button
+              onClick={() => connect({ connector: connectors[0] })}
+              className="btn-demon"
+              disabled={isPending || connectors.length === 0}
+            >
+              {isPending ? "CONNECTING..." : "CONNECT OPERATOR WALLET"}
+            </button>
+            {connectError && (
+              <div className="blood-box">{errorMessage(connectError)}</div>
+            )}
+          </>
+        )}
+
+        {isConnected && address && (
+          <>
+            <div className="tech-card">
+              <div className="tech-label">OPERATOR</div>
+              <code className="address-display">{address}</code>
+              <button
+                onClick={() => disconnect()}
+                className="btn-demon btn-secondary"
+              >
+                DISCONNECT
+              </button>
+            </div>
+
+            {chainId !== optimismSepolia.id ? (
+              <button
+                onClick={() => switchChain({ chainId: optimismSepolia.id })}
+                className="btn-demon"
+              >
+                SWITCH TO {optimismSepolia.name.toUpperCase()}
+              </button>
+            ) : (
+              <>
+                <DeploySession onDeployed={refresh} />
+                <RegisterChoice
+                  operator={address}
+                  sessions={sessions ?? []}
+                  onRegistered={refresh}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        <SessionList
+          sessions={sessions}
+          error={sessionsError}
+          refreshKey={refreshKey}
+        />
+      </main>
+    </div>
+  );
+}
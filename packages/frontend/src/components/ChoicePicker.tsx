@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { formatEther } from "viem";
+import {
+  choiceLabel,
+  validateStakeSplit,
+  type SessionChoice,
+  type StakeLimits,
+  type StakeSplit,
+} from "../lib/choices";
+import "./ChoicePicker.css";
+
+interface ChoicePickerProps {
+  choices: SessionChoice[];
+  limits: StakeLimits;
+  disabled?: boolean;
+  onConfirm: (split: StakeSplit) => void;
+}
+
+// Pick choices, split TEST across them, then review the offering before the card signs
+export function ChoicePicker({
+  choices,
+  limits,
+  disabled = false,
+  onConfirm,
+}: ChoicePickerProps) {
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [picked, setPicked] = useState<string[]>([]);
+  const [review, setReview] = useState<StakeSplit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const byId = new Map(choices.map((choice) => [choice.id, choice]));
+
+  const togglePick = (id: string) => {
+    setError(null);
+    setPicked((current) =>
+      current.includes(id)
+        ? current.filter((pickedId) => pickedId !== id)
+        : [...current, id],
+    );
+  };
+
+  const handleReview = () => {
+    const result = validateStakeSplit(
+      picked.map((id) => ({
+        choice: byId.get(id)!,
+        amount: amounts[id] ?? "",
+      })),
+      limits,
+    );
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setReview(result.split);
+  };
+
+  if (review) {
+    const total = review.amounts.reduce((sum, amount) => sum + amount, 0n);
+    return (
+      <div className="choice-picker">
+        <div className="tech-label">CONFIRM THE OFFERING</div>
+        <ul className="choice-summary">
+          {review.choiceIds.map((id, i) => (
+            <li key={id}>
+              <span>{choiceLabel(byId.get(id)!)}</span>
+              <span>{formatEther(review.amounts[i])} TEST</span>
+            </li>
+          ))}
+          <li className="choice-summary-total">
+            <span>TOTAL</span>
+            <span>{formatEther(total)} TEST</span>
+          </li>
+        </ul>
+        <button
+          onClick={() => onConfirm(review)}
+          className="btn-demon"
+          disabled={disabled}
+        >
+          TAP YOUR CARD TO SIGN
+        </button>
+        <button
+          onClick={() => setReview(null)}
+          className="btn-demon btn-secondary"
+          disabled={disabled}
+        >
+          CHANGE THE OFFERING
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="choice-picker">
+      <div className="tech-label">CHOOSE WHERE YOUR OFFERING GOES</div>
+      {choices.length === 0 && (
+        <p className="choice-empty">This session has no choices yet</p>
+      )}
+      {choices.map((choice) => {
+        const isPicked = picked.includes(choice.id);
+        return (
+          <div
+            key={choice.id}
+            className={`choice-option ${isPicked ? "picked" : ""}`}
+          >
+            <label className="choice-header">
+              <input
+                type="checkbox"
+                checked={isPicked}
+                onChange={() => togglePick(choice.id)}
+                disabled={disabled}
+              />
+              <span className="choice-name">{choiceLabel(choice)}</span>
+              {choice.symbol && (
+                <span className="choice-symbol">{choice.symbol}</span>
+              )}
+            </label>
+            {/^https?:\/\//.test(choice.tokenURI) && (
+              <a
+                href={choice.tokenURI}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="choice-uri"
+              >
+                {choice.tokenURI}
+              </a>
+            )}
+            {isPicked && (
+              <div className="choice-amount">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="0"
+                  value={amounts[choice.id] ?? ""}
+                  onChange={(event) => {
+                    setError(null);
+                    setAmounts({ ...amounts, [choice.id]: event.target.value });
+                  }}
+                  disabled={disabled}
+                />
+                <span>TEST</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <p className="choice-limits">
+        Up to {formatEther(limits.maxStakePerTx)} TEST per offering
+        {limits.maxStakePerChoice !== null &&
+          `, ${formatEther(limits.maxStakePerChoice)} TEST per choice`}
+      </p>
+      {error && <div className="choice-error">{error}</div>}
+      <button
+        onClick={handleReview}
+        className="btn-demon"
+        disabled={disabled || picked.length === 0}
+      >
+        REVIEW THE OFFERING
+      </button>
+    </div>
+  );
+}
@@ -1,18 +1,154 @@
-import { useState } from "react";
-import { createPublicClient, http, parseEther, type Address } from "viem";
+import {
+  createRelayerClient,
+  delegationDesignator,
+  hashCommitmentApproval,
+  hashRelayCommitment,
+  hashRelayIntent,
+  INTENT_MAX_TTL_SECONDS,
+  RelayerClientError,
+  serializeAuthorization,
+  TEST_ERC20_ABI,
+  type RelayErrorCode,
+  type RelayEvent,
+  type RelayOperation,
+  type RelayRequest,
+  type RelayerChainConfig,
+} from "@tap-stake/sdk";
+import { useCallback, useEffect, useState } from "react";
+import {
+  concat,
+  createPublicClient,
+  formatEther,
+  http,
+  keccak256,
+  toHex,
+  type Address,
+  type Hex,
+} from "viem";
 import { optimismSepolia } from "viem/chains";
 import moloch1 from "../assets/images/moloch1.png";
 import moloch2 from "../assets/images/moloch2.png";
+import { CONTRACTS } from "../config/contracts";
+import {
+  loadSessionChoices,
+  STAKE_CHOICES_ABI,
+  type SessionChoice,
+  type StakeSplit,
+} from "../lib/choices";
 import type { NFCConnection } from "../lib/nfcResource";
-
-// Deployed contract addresses - Updated October 14, 2025
-const CONTRACTS = {
-  testToken: "0xAA2B1999C772cF2B4E5478e4b5C54aE8447ef756" as Address,
-  stakeChoicesToken: "0x79ed6D4B6d582286944aD6cC18cB7A61Ca5c2199" as Address,
-  stakerWallet: "0xeb5ed03c030448270d5671cd4ae79ad124765f26" as Address,
+import { ChoicePicker } from "./ChoicePicker";
+import { Portfolio } from "./Portfolio";
+
+const relayer = createRelayerClient({
+  url: import.meta.env.VITE_RELAYER_URL || "http://localhost:8787",
+});
+
+// Sign intents for half the relayer's limit, leaving room for clock skew and retries
+const INTENT_TTL_SECONDS = INTENT_MAX_TTL_SECONDS / 2;
+
+// Commitments only need to outlive the store confirmation and the authorization tap
+const COMMITMENT_TTL_SECONDS = 10 * 60;
+
+// User-facing messages for the relayer's stable error codes
+const RELAY_ERROR_MESSAGES: Partial<Record<RelayErrorCode, string>> = {
+  INSUFFICIENT_TOKEN_BALANCE: "Your card holds too little TEST for this offering",
+  INSUFFICIENT_BALANCE: "Your card holds too little TEST for this offering",
+  FAUCET_COOLDOWN: "This card already claimed TEST recently, try again later",
+  FAUCET_DISABLED: "The faucet is not available on this chain",
+  INSUFFICIENT_TOKEN_ALLOWANCE: "The StakerWallet could not spend your TEST",
+  TOKEN_TRANSFER_FAILED: "The TEST transfer was refused",
+  INSUFFICIENT_STAKE_BALANCE: "Your card holds less stake than it tried to withdraw",
+  AMOUNT_TOO_HIGH: "The offering exceeds the per-transaction limit",
+  LENGTH_MISMATCH: "Choices and amounts do not line up",
+  ONLY_RELAYER: "The StakerWallet does not recognize this relayer",
+  COMMITMENT_NOT_FOUND:
+    "The relayer found no commitment for this offering, or it expired",
+  COMMITMENT_MISMATCH: "The offering does not match what was committed",
+  COMMITMENT_EXISTS:
+    "An offering is already committed for this card, try again once it expires",
+  INVALID_COMMITMENT: "The relayer did not accept your card's commitment",
+  STALE_NONCE: "Your card's nonce moved on, try again",
+  EOA_ALREADY_DELEGATED: "Your card is already bound, try again to sign an intent",
+  RELAYER_UNDERFUNDED: "The relayer is out of gas money, try again later",
+  POLICY_VIOLATION: "The relayer won't sponsor this offering right now",
+  RATE_LIMITED: "Too many offerings at once, wait a moment and try again",
 };
 
-const RELAYER_URL = import.meta.env.VITE_RELAYER_URL || "http://localhost:8787";
+// Helper to run a relayer call and surface its error codes as user-facing
+// messages. The client already retries dropped connections where that is safe.
+async function withRelayErrors<T>(
+  label: string,
+  call: () => Promise<T>,
+): Promise<T> {
+  try {
+    return await call();
+  } catch (err) {
+    if (!(err instanceof RelayerClientError)) throw err;
+    console.error(`⚔️ DemonSlayer: ${label} failed:`, err.code, err.details);
+    // Policy rejections carry an explanation of the rule that fired
+    const policyMessage =
+      err.code === "POLICY_VIOLATION"
+        ? (err.details as { message?: string } | undefined)?.message
+        : undefined;
+    throw new Error(
+      policyMessage ||
+        (err.code && RELAY_ERROR_MESSAGES[err.code]) ||
+        err.message ||
+        "Relay failed",
+    );
+  }
+}
+
+// Follow a relayer transaction over its SSE event stream until it is confirmed.
+// With a batchIndex the relayer reports our own call's result, not the batch's.
+const waitForRelayConfirmation = (txHash: Hex, batchIndex?: number) =>
+  new Promise<{ blockNumber: bigint; gasUsed: bigint }>((resolve, reject) => {
+    const events = new EventSource(
+      relayer.eventsUrl(txHash, { chainId: optimismSepolia.id, batchIndex }),
+    );
+
+    events.addEventListener("replaced", (event) => {
+      const { hash }: RelayEvent = JSON.parse(event.data);
+      console.log("⚔️ DemonSlayer: Relayer bumped fees, now", hash);
+    });
+    events.addEventListener("included", (event) => {
+      const { blockNumber }: RelayEvent = JSON.parse(event.data);
+      console.log("⚔️ DemonSlayer: Included in block", blockNumber);
+    });
+    events.addEventListener("confirmed", (event) => {
+      const { blockNumber, gasUsed }: RelayEvent = JSON.parse(event.data);
+      events.close();
+      resolve({
+        blockNumber: BigInt(blockNumber ?? 0),
+        gasUsed: BigInt(gasUsed ?? 0),
+      });
+    });
+    events.addEventListener("failed", () => {
+      events.close();
+      reject(
+        new Error(
+          batchIndex !== undefined
+            ? "Your offering failed inside the relayer's batch"
+            : "The transaction reverted",
+        ),
+      );
+    });
+    // EventSource reconnects on its own; CLOSED means the relayer refused the stream
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        reject(new Error("Lost track of the transaction, check it later"));
+      }
+    };
+  });
+
+// CommitmentStore the relayer expects commitments in for this chain, if any
+const fetchCommitmentStore = async (): Promise<Address | null> => {
+  const config = await relayer.getConfig();
+  return (
+    config.chains.find((chain) => chain.chainId === optimismSepolia.id)
+      ?.commitmentStore ?? null
+  );
+};
 
 interface StakeResult {
   txHash: string;
@@ -28,47 +164,183 @@ export function DemonSlayer({ connection }: DemonSlayerProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [stakeResult, setStakeResult] = useState<StakeResult | null>(null);
+  const [withdrawResult, setWithdrawResult] = useState<StakeResult | null>(
+    null,
+  );
   const [isStaked, setIsStaked] = useState(false);
   const [showVictory, setShowVictory] = useState(false);
+  const [tokenBalance, setTokenBalance] = useState<bigint | null>(null);
+  const [chainConfig, setChainConfig] = useState<RelayerChainConfig | null>(
+    null,
+  );
+  const [choices, setChoices] = useState<SessionChoice[] | null>(null);
+  const [stakedSplit, setStakedSplit] = useState<StakeSplit | null>(null);
+  const [view, setView] = useState<"ritual" | "portfolio">("ritual");
+  const [portfolioRefresh, setPortfolioRefresh] = useState(0);
 
   const publicClient = createPublicClient({
     chain: optimismSepolia,
     transport: http(),
   });
 
-  const handleMolochClick = async () => {
-    if (!stakeResult) {
-      await handleStake();
-    }
-  };
-
-  const handleStake = async () => {
-    setIsLoading(true);
-    setError(null);
-
-    try {
-      console.log("⚔️ DemonSlayer: Beginning stake ritual...");
-      const account = connection.account;
-      if (!account || !("signAuthorization" in account)) {
-        throw new Error("Invalid NFC account");
+  // TEST balance decides whether the card needs the faucet before it can stake
+  const refreshTokenBalance = useCallback(async () => {
+    const client = createPublicClient({
+      chain: optimismSepolia,
+      transport: http(),
+    });
+    const balance = await client.readContract({
+      address: CONTRACTS.testToken,
+      abi: TEST_ERC20_ABI,
+      functionName: "balanceOf",
+      args: [connection.address],
+    });
+    console.log("⚔️ DemonSlayer: TEST balance:", formatEther(balance));
+    setTokenBalance(balance);
+  }, [connection.address]);
+
+  useEffect(() => {
+    refreshTokenBalance().catch((err) =>
+      console.error("⚔️ DemonSlayer: Failed to read TEST balance:", err),
+    );
+  }, [refreshTokenBalance]);
+
+  // The session's choices are the relayer's approved IDs, named on StakeChoicesERC6909
+  useEffect(() => {
+    const loadChoices = async () => {
+      const config = await relayer.getConfig();
+      const chain = config.chains.find(
+        (chain) => chain.chainId === optimismSepolia.id,
+      );
+      if (!chain) {
+        throw new Error("The relayer does not serve this chain");
       }
+      setChainConfig(chain);
+      const client = createPublicClient({
+        chain: optimismSepolia,
+        transport: http(),
+      });
+      const sessionChoices = await loadSessionChoices(
+        client,
+        CONTRACTS.stakeChoicesToken,
+        chain.approvedChoiceIds,
+      );
+      console.log("⚔️ DemonSlayer: Session choices:", sessionChoices);
+      setChoices(sessionChoices);
+    };
+    loadChoices().catch((err) => {
+      console.error("⚔️ DemonSlayer: Failed to load choices:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to load the choices",
+      );
+    });
+  }, []);
+
+  const needsTestTokens = tokenBalance === 0n;
+  const stakedTotal =
+    stakedSplit?.amounts.reduce((sum, amount) => sum + amount, 0n) ?? 0n;
+
+  // Sign with the card and hand the operation to the relayer. A fresh EOA signs an
+  // EIP-7702 authorization; one already delegated to the StakerWallet signs an intent.
+  const relayOperation = async (
+    operation: RelayOperation,
+    choiceIds: string[],
+    amounts: string[],
+  ): Promise<StakeResult> => {
+    const account = connection.account;
+    if (!account || !("signAuthorization" in account)) {
+      throw new Error("Invalid NFC account");
+    }
 
+    const code = await publicClient.getCode({ address: connection.address });
+    const isDelegated =
+      code?.toLowerCase() ===
+      delegationDesignator(CONTRACTS.stakerWallet).toLowerCase();
+
+    let relayPayload: RelayRequest;
+    let signature: Hex;
+    if (isDelegated) {
+      console.log("⚔️ DemonSlayer: EOA already delegated, signing intent...");
+      const deadline = Math.floor(Date.now() / 1000) + INTENT_TTL_SECONDS;
+      const intentHash = hashRelayIntent({
+        eoa: connection.address,
+        chainId: optimismSepolia.id,
+        stakerWallet: CONTRACTS.stakerWallet,
+        operation,
+        choiceIds: choiceIds.map((id) => BigInt(id)),
+        amounts: amounts.map((amount) => BigInt(amount)),
+        deadline,
+      });
+      signature = await account.signMessage({
+        message: { raw: intentHash },
+      });
+      console.log("⚔️ DemonSlayer: Intent signed:", signature);
+
+      relayPayload = {
+        operation,
+        intent: {
+          eoa: connection.address,
+          chainId: optimismSepolia.id,
+          deadline,
+          signature,
+        },
+        choiceIds,
+        amounts,
+      };
+    } else {
       // Get current transaction nonce for EIP-7702 authorization
       const txNonce = await publicClient.getTransactionCount({
         address: connection.address,
       });
       console.log("⚔️ DemonSlayer: Current nonce:", txNonce);
 
-      // Multi-choice stake: 20 TEST on choice 1, 30 TEST on choice 4
-      // Using actual choice IDs from deployment (1st and 4th registered choices)
-      const choiceIds = [
-        "99921030434853126453340568019546123113290951926625281747676119336391366179676", // Choice 1
-        "102590855234691522285546861392190170000582855349844279089213381909182907084793", // Choice 4
-      ];
-      const amounts = [
-        parseEther("20").toString(), // 20 TEST on choice 1
-        parseEther("30").toString(), // 30 TEST on choice 4
-      ];
+      // Where the relayer requires it, commit to the operation before the card signs
+      let reveal: { salt: Hex } | undefined;
+      const commitmentStore = await fetchCommitmentStore();
+      if (commitmentStore) {
+        const salt = toHex(crypto.getRandomValues(new Uint8Array(32)));
+        const commitment = hashRelayCommitment({
+          eoa: connection.address,
+          chainId: optimismSepolia.id,
+          stakerWallet: CONTRACTS.stakerWallet,
+          operation,
+          choiceIds: choiceIds.map((id) => BigInt(id)),
+          amounts: amounts.map((amount) => BigInt(amount)),
+          salt,
+        });
+        const expiresAt =
+          Math.floor(Date.now() / 1000) + COMMITMENT_TTL_SECONDS;
+
+        // The card approves the commitment, so the relayer can store it but not choose it
+        console.log("⚔️ DemonSlayer: Requesting commitment signature...");
+        const commitmentSignature = await account.signMessage({
+          message: {
+            raw: hashCommitmentApproval({
+              commitmentStore,
+              chainId: optimismSepolia.id,
+              eoa: connection.address,
+              nonce: txNonce,
+              commitment,
+              expiresAt,
+            }),
+          },
+        });
+
+        console.log("⚔️ DemonSlayer: Storing commitment:", commitment);
+        const committed = await withRelayErrors("/v1/commitments", () =>
+          relayer.storeCommitment({
+            eoa: connection.address,
+            chainId: optimismSepolia.id,
+            nonce: txNonce,
+            commitment,
+            expiresAt,
+            signature: commitmentSignature,
+          }),
+        );
+        await waitForRelayConfirmation(committed.txHash);
+        console.log("⚔️ DemonSlayer: Commitment stored:", committed.txHash);
+        reveal = { salt };
+      }
 
       // Sign EIP-7702 authorization
       console.log("⚔️ DemonSlayer: Requesting authorization signature...");
@@ -78,56 +350,69 @@ export function DemonSlayer({ connection }: DemonSlayerProps) {
         nonce: txNonce,
       });
       console.log("⚔️ DemonSlayer: Authorization signed:", authorization);
+      signature = concat([authorization.r, authorization.s]);
 
-      // Send to relayer
-      console.log(
-        "⚔️ DemonSlayer: Sending to relayer with multi-choice stakes...",
-      );
-      const relayPayload = {
-        authorization: {
-          address: authorization.address,
-          chainId: authorization.chainId,
-          nonce: authorization.nonce.toString(),
-          r: authorization.r,
-          s: authorization.s,
-          yParity: authorization.yParity,
-        },
+      relayPayload = {
+        operation,
+        authorization: serializeAuthorization(authorization),
         choiceIds,
         amounts,
+        reveal,
       };
+    }
 
-      const response = await fetch(RELAYER_URL, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(relayPayload),
-      });
-
-      const result = await response.json();
+    // Send to relayer, keyed on the signature so any resend of it is the same request
+    console.log(`⚔️ DemonSlayer: Sending ${operation} to relayer...`);
+    const idempotencyKey = keccak256(signature);
+    const result = await withRelayErrors("/v1/relay", () =>
+      relayer.relay(relayPayload, { idempotencyKey }),
+    );
+    if (!result.txHash) {
+      throw new Error("The relayer did not send a transaction");
+    }
+    if (result.duplicate) {
+      console.log("⚔️ DemonSlayer: Relayer returned the earlier submission");
+    }
 
-      if (!response.ok || !result.success) {
-        console.error("⚔️ DemonSlayer: Relay failed:", result);
-        throw new Error(result.error || "Relay failed");
-      }
+    console.log(
+      "⚔️ DemonSlayer: Transaction submitted! Hash:",
+      result.txHash,
+    );
+
+    // The relayer pushes confirmation, following fee-bumped replacements too
+    const receipt = await waitForRelayConfirmation(
+      result.txHash,
+      result.batchIndex,
+    );
+    console.log("⚔️ DemonSlayer: Transaction confirmed!", {
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+    });
+
+    return {
+      txHash: result.txHash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+    };
+  };
 
-      console.log(
-        "⚔️ DemonSlayer: Transaction submitted! Hash:",
-        result.txHash,
-      );
+  const handleStake = async (split: StakeSplit) => {
+    setIsLoading(true);
+    setError(null);
 
-      // Wait for confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: result.txHash,
-      });
-      console.log("⚔️ DemonSlayer: Transaction confirmed!", {
-        blockNumber: receipt.blockNumber,
-        gasUsed: receipt.gasUsed.toString(),
-      });
+    try {
+      console.log("⚔️ DemonSlayer: Beginning stake ritual...", split);
 
-      setStakeResult({
-        txHash: result.txHash,
-        blockNumber: receipt.blockNumber,
-        gasUsed: receipt.gasUsed,
-      });
+      const result = await relayOperation(
+        "stake",
+        split.choiceIds,
+        split.amounts.map((amount) => amount.toString()),
+      );
+      setStakeResult(result);
+      setStakedSplit(split);
+      setWithdrawResult(null);
+      refreshTokenBalance().catch(() => undefined);
+      setPortfolioRefresh((key) => key + 1);
 
       setError(null);
 
@@ -160,8 +445,80 @@ export function DemonSlayer({ connection }: DemonSlayerProps) {
     }
   };
 
+  // Fresh cards hold no TEST; the relayer's testnet faucet mints some
+  const handleClaimTokens = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log("⚔️ DemonSlayer: Claiming test tokens...");
+      const result = await withRelayErrors("/v1/faucet", () =>
+        relayer.claimFaucet({
+          address: connection.address,
+          chainId: optimismSepolia.id,
+        }),
+      );
+      await waitForRelayConfirmation(result.txHash);
+      console.log("⚔️ DemonSlayer: Test tokens claimed:", result.txHash);
+      await refreshTokenBalance();
+    } catch (err) {
+      console.error("⚔️ DemonSlayer: Claim failed:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to claim test tokens";
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      console.log("⚔️ DemonSlayer: Beginning withdrawal ritual...");
+
+      // Withdraw the full receipt balance held on each of the session's choices
+      const choiceIdsInSession = (choices ?? []).map((choice) => choice.id);
+      const balances = await Promise.all(
+        choiceIdsInSession.map((id) =>
+          publicClient.readContract({
+            address: CONTRACTS.stakeChoicesToken,
+            abi: STAKE_CHOICES_ABI,
+            functionName: "balanceOf",
+            args: [connection.address, BigInt(id)],
+          }),
+        ),
+      );
+      console.log(
+        "⚔️ DemonSlayer: Staked balances:",
+        balances.map((b) => b.toString()),
+      );
+
+      const choiceIds = choiceIdsInSession.filter((_, i) => balances[i] > 0n);
+      const amounts = balances.filter((b) => b > 0n).map((b) => b.toString());
+      if (choiceIds.length === 0) {
+        throw new Error("No stake to withdraw");
+      }
+
+      const result = await relayOperation("unstake", choiceIds, amounts);
+      setWithdrawResult(result);
+      refreshTokenBalance().catch(() => undefined);
+      setPortfolioRefresh((key) => key + 1);
+    } catch (err) {
+      console.error("⚔️ DemonSlayer: Withdraw failed:", err);
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to withdraw";
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleClear = () => {
     setStakeResult(null);
+    setStakedSplit(null);
+    setWithdrawResult(null);
     setError(null);
     setIsStaked(false);
     setShowVictory(false);
@@ -177,87 +534,209 @@ export function DemonSlayer({ connection }: DemonSlayerProps) {
       </header>
 
       <main className="demon-main">
-        <div className="moloch-section">
-          <div
-            className={`moloch-image-container ${isStaked ? "staked" : ""} ${isLoading ? "loading" : ""}`}
-            onClick={handleMolochClick}
+        <div className="view-toggle">
+          <button
+            onClick={() => setView("ritual")}
+            className={`btn-demon ${view === "ritual" ? "active" : ""}`}
           >
-            <img
-              src={isStaked ? moloch2 : moloch1}
-              alt="Moloch - Demon of Dis-coordination"
-              className="moloch-image"
-            />
-          </div>
-
-          <div className="demon-status">
-            {!stakeResult && !isLoading && (
-              <p className="demon-text">
-                TAP THE STAKE TO SLAY MOLOCH
-                <br />
-                <span style={{ fontSize: "0.8em", opacity: 0.8 }}>
-                  20 TEST → Choice 1 | 30 TEST → Choice 4
-                </span>
-              </p>
+            RITUAL
+          </button>
+          <button
+            onClick={() => setView("portfolio")}
+            className={`btn-demon ${view === "portfolio" ? "active" : ""}`}
+          >
+            PORTFOLIO
+          </button>
+        </div>
+
+        {view === "portfolio" && (
+          <>
+            {choices ? (
+              <Portfolio
+                owner={connection.address}
+                stakeChoices={CONTRACTS.stakeChoicesToken}
+                fromBlock={CONTRACTS.deployBlock}
+                choices={choices}
+                tokenBalance={tokenBalance}
+                refreshKey={portfolioRefresh}
+                disabled={isLoading}
+                onWithdraw={handleWithdraw}
+              />
+            ) : (
+              <p className="demon-text">SUMMONING THE CHOICES...</p>
             )}
             {isLoading && (
               <p className="demon-text" style={{ color: "#ffaa00" }}>
                 PERFORMING BLOOD RITUAL...
               </p>
             )}
-            {showVictory && (
-              <p className="demon-text victory">
-                MOLOCH IS SLAIN! COORDINATION RESTORED!
-                <br />
-                <span style={{ fontSize: "0.8em" }}>
-                  50 TEST staked across 2 choices
-                </span>
-              </p>
+            {error && (
+              <div className="blood-box">
+                <strong>RITUAL FAILED:</strong> {error}
+              </div>
             )}
-          </div>
-        </div>
-
-        {error && (
-          <div className="blood-box">
-            <strong>RITUAL FAILED:</strong> {error}
-          </div>
+          </>
         )}
 
-        <div className="tech-section">
-          <div className="tech-card">
-            <div className="tech-label">SLAYER'S SIGIL</div>
-            <code className="address-display">{connection.address}</code>
-          </div>
-        </div>
-
-        {stakeResult && (
-          <div className="tech-section">
-            <div className="tech-card">
-              <div className="tech-label">VICTORY RECORD</div>
-              <a
-                href={`https://sepolia-optimism.etherscan.io/tx/${stakeResult.txHash}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                style={{ color: "#00ffff", wordBreak: "break-all" }}
+        {view === "ritual" && (
+          <>
+            <div className="moloch-section">
+              <div
+                className={`moloch-image-container ${isStaked ? "staked" : ""} ${isLoading ? "loading" : ""}`}
               >
-                {stakeResult.txHash}
-              </a>
+                <img
+                  src={isStaked ? moloch2 : moloch1}
+                  alt="Moloch - Demon of Dis-coordination"
+                  className="moloch-image"
+                />
+              </div>
+
+              <div className="demon-status">
+                {!stakeResult && !isLoading && needsTestTokens && (
+                  <p className="demon-text">
+                    YOUR CARD HOLDS NO TEST
+                    <br />
+                    <span style={{ fontSize: "0.8em", opacity: 0.8 }}>
+                      Claim test tokens before the ritual
+                    </span>
+                  </p>
+                )}
+                {!stakeResult && !isLoading && !needsTestTokens && (
+                  <p className="demon-text">
+                    OFFER YOUR STAKE TO SLAY MOLOCH
+                    <br />
+                    <span style={{ fontSize: "0.8em", opacity: 0.8 }}>
+                      Split your TEST across the choices below
+                    </span>
+                  </p>
+                )}
+                {isLoading && (
+                  <p className="demon-text" style={{ color: "#ffaa00" }}>
+                    PERFORMING BLOOD RITUAL...
+                  </p>
+                )}
+                {showVictory && stakedSplit && (
+                  <p className="demon-text victory">
+                    MOLOCH IS SLAIN! COORDINATION RESTORED!
+                    <br />
+                    <span style={{ fontSize: "0.8em" }}>
+                      {formatEther(stakedTotal)} TEST staked across{" "}
+                      {stakedSplit.choiceIds.length}{" "}
+                      {stakedSplit.choiceIds.length === 1
+                        ? "choice"
+                        : "choices"}
+                    </span>
+                  </p>
+                )}
+              </div>
             </div>
 
-            <div className="tech-card">
-              <div className="tech-label">BLOCK SEALED</div>
-              <code className="address-display">
-                {stakeResult.blockNumber.toString()}
-              </code>
-            </div>
+            {!stakeResult &&
+              !needsTestTokens &&
+              tokenBalance !== null &&
+              chainConfig &&
+              choices && (
+                <ChoicePicker
+                  choices={choices}
+                  limits={{
+                    balance: tokenBalance,
+                    maxStakePerTx: BigInt(chainConfig.maxStakePerTx),
+                    maxStakePerChoice:
+                      chainConfig.maxStakePerChoice !== null
+                        ? BigInt(chainConfig.maxStakePerChoice)
+                        : null,
+                  }}
+                  disabled={isLoading}
+                  onConfirm={handleStake}
+                />
+              )}
+
+            {needsTestTokens && !stakeResult && (
+              <button
+                onClick={handleClaimTokens}
+                className="btn-demon"
+                disabled={isLoading}
+              >
+                CLAIM TEST TOKENS
+              </button>
+            )}
 
-            <div className="verification-ritual sanctified">
-              ✓ MOLOCH BANISHED TO THE BLOCKCHAIN
+            {error && (
+              <div className="blood-box">
+                <strong>RITUAL FAILED:</strong> {error}
+              </div>
+            )}
+
+            <div className="tech-section">
+              <div className="tech-card">
+                <div className="tech-label">SLAYER'S SIGIL</div>
+                <code className="address-display">{connection.address}</code>
+              </div>
+              {tokenBalance !== null && (
+                <div className="tech-card">
+                  <div className="tech-label">OFFERING RESERVES</div>
+                  <code className="address-display">
+                    {formatEther(tokenBalance)} TEST
+                  </code>
+                </div>
+              )}
             </div>
 
-            <button onClick={handleClear} className="btn-demon">
-              RESURRECT MOLOCH (START OVER)
-            </button>
-          </div>
+            {stakeResult && (
+              <div className="tech-section">
+                <div className="tech-card">
+                  <div className="tech-label">VICTORY RECORD</div>
+                  <a
+                    href={`https://sepolia-optimism.etherscan.io/tx/${stakeResult.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: "#00ffff", wordBreak: "break-all" }}
+                  >
+                    {stakeResult.txHash}
+                  </a>
+                </div>
+
+                <div className="tech-card">
+                  <div className="tech-label">BLOCK SEALED</div>
+                  <code className="address-display">
+                    {stakeResult.blockNumber.toString()}
+                  </code>
+                </div>
+
+                <div className="verification-ritual sanctified">
+                  ✓ MOLOCH BANISHED TO THE BLOCKCHAIN
+                </div>
+
+                {!withdrawResult && (
+                  <button
+                    onClick={handleWithdraw}
+                    className="btn-demon"
+                    disabled={isLoading}
+                  >
+                    RECLAIM THE OFFERING (WITHDRAW STAKE)
+                  </button>
+                )}
+
+                {withdrawResult && (
+                  <div className="tech-card">
+                    <div className="tech-label">OFFERING RECLAIMED</div>
+                    <a
+                      href={`https://sepolia-optimism.etherscan.io/tx/${withdrawResult.txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      style={{ color: "#00ffff", wordBreak: "break-all" }}
+                    >
+                      {withdrawResult.txHash}
+                    </a>
+                  </div>
+                )}
+
+                <button onClick={handleClear} className="btn-demon">
+                  RESURRECT MOLOCH (START OVER)
+                </button>
+              </div>
+            )}
+          </>
         )}
 
         <div className="footer-info">
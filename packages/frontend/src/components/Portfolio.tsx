@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { createPublicClient, formatEther, http, type Address } from "viem";
+import { optimismSepolia } from "viem/chains";
+import { choiceLabel, type SessionChoice } from "../lib/choices";
+import {
+  loadStakeHistory,
+  loadStakePositions,
+  shareOfSupply,
+  type StakeHistoryEntry,
+  type StakePosition,
+} from "../lib/portfolio";
+import "./Portfolio.css";
+
+interface PortfolioProps {
+  owner: Address;
+  stakeChoices: Address;
+  fromBlock: bigint; // Session deploy block, where the stake history starts
+  choices: SessionChoice[];
+  tokenBalance: bigint | null;
+  refreshKey?: number; // Bump to reload after a stake or unstake
+  disabled?: boolean;
+  onWithdraw?: () => void;
+}
+
+// What the card holds on each choice of the session, and how it got there
+export function Portfolio({
+  owner,
+  stakeChoices,
+  fromBlock,
+  choices,
+  tokenBalance,
+  refreshKey = 0,
+  disabled = false,
+  onWithdraw,
+}: PortfolioProps) {
+  const [positions, setPositions] = useState<StakePosition[] | null>(null);
+  const [history, setHistory] = useState<StakeHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const client = createPublicClient({
+      chain: optimismSepolia,
+      transport: http(),
+    });
+    setError(null);
+    loadStakePositions(client, stakeChoices, owner, choices)
+      .then(setPositions)
+      .catch((err) => {
+        console.error("⚔️ DemonSlayer: Failed to read positions:", err);
+        setError("Could not read your positions");
+      });
+    loadStakeHistory(client, stakeChoices, owner, fromBlock)
+      .then(setHistory)
+      .catch((err) => {
+        console.error("⚔️ DemonSlayer: Failed to read stake history:", err);
+        setError("Could not read your stake history");
+      });
+  }, [owner, stakeChoices, fromBlock, choices, refreshKey]);
+
+  const byId = new Map(choices.map((choice) => [choice.id, choice]));
+  const held = positions?.filter((position) => position.balance > 0n) ?? [];
+  const totalStaked = held.reduce(
+    (sum, position) => sum + position.balance,
+    0n,
+  );
+
+  return (
+    <div className="portfolio">
+      <div className="tech-card">
+        <div className="tech-label">OFFERING RESERVES</div>
+        <code className="address-display">
+          {tokenBalance !== null ? `${formatEther(tokenBalance)} TEST` : "…"}
+        </code>
+      </div>
+
+      <div className="tech-card">
+        <div className="tech-label">
+          POSITIONS
+          {positions && ` · ${formatEther(totalStaked)} TEST STAKED`}
+        </div>
+        {!positions && <p className="portfolio-empty">Reading positions…</p>}
+        {positions && (
+          <table className="portfolio-table">
+            <thead>
+              <tr>
+                <th>CHOICE</th>
+                <th>STAKED</th>
+                <th>SHARE</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map((position) => (
+                <tr
+                  key={position.choice.id}
+                  className={position.balance > 0n ? "held" : ""}
+                >
+                  <td>
+                    {choiceLabel(position.choice)}
+                    {position.choice.symbol && (
+                      <span className="portfolio-symbol">
+                        {position.choice.symbol}
+                      </span>
+                    )}
+                  </td>
+                  <td>{formatEther(position.balance)}</td>
+                  <td>{shareOfSupply(position)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {onWithdraw && held.length > 0 && (
+          <button
+            onClick={onWithdraw}
+            className="btn-demon"
+            disabled={disabled}
+          >
+            RECLAIM THE OFFERING (WITHDRAW STAKE)
+          </button>
+        )}
+      </div>
+
+      <div className="tech-card">
+        <div className="tech-label">RITUAL HISTORY</div>
+        {!history && <p className="portfolio-empty">Reading history…</p>}
+        {history?.length === 0 && (
+          <p className="portfolio-empty">This card has not staked yet</p>
+        )}
+        {history && history.length > 0 && (
+          <ul className="portfolio-history">
+            {history.map((entry) => (
+              <li key={entry.txHash} className={entry.kind}>
+                <div className="portfolio-history-header">
+                  <span>{entry.kind === "stake" ? "STAKED" : "UNSTAKED"}</span>
+                  <a
+                    href={`https://sepolia-optimism.etherscan.io/tx/${entry.txHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    BLOCK {entry.blockNumber.toString()}
+                  </a>
+                </div>
+                {entry.amounts.map(({ choiceId, amount }) => {
+                  const choice = byId.get(choiceId);
+                  return (
+                    <div key={choiceId} className="portfolio-history-line">
+                      <span>
+                        {choice
+                          ? choiceLabel(choice)
+                          : `Choice ${choiceId.slice(0, 6)}…`}
+                      </span>
+                      <span>{formatEther(amount)} TEST</span>
+                    </div>
+                  );
+                })}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <div className="blood-box">{error}</div>}
+    </div>
+  );
+}
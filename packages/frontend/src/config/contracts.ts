@@ -0,0 +1,16 @@
+import { DEPLOYMENTS } from '@tap-stake/sdk';
+import { optimismSepolia } from 'viem/chains';
+
+// Generated from the contracts package's broadcasts; regenerate the SDK after a redeploy
+const deployment = DEPLOYMENTS[optimismSepolia.id];
+const [session] = deployment.sessions; // Newest first
+
+// Deployed contract addresses on Optimism Sepolia
+export const CONTRACTS = {
+  testToken: session.stakingToken,
+  stakeChoicesFactory: deployment.contracts.StakeChoicesFactory.address,
+  stakeChoicesToken: session.address,
+  stakerWallet: deployment.contracts.StakerWallet.address,
+  // Session deploy block; event history is read from here on
+  deployBlock: session.blockNumber,
+};
@@ -0,0 +1,101 @@
+import { STAKE_CHOICES_ERC6909_ABI } from '@tap-stake/sdk';
+import { formatEther, parseEther, type Address, type PublicClient } from 'viem';
+
+// StakeChoicesERC6909 receipts, supply, choice metadata and events
+export const STAKE_CHOICES_ABI = STAKE_CHOICES_ERC6909_ABI;
+
+export interface SessionChoice {
+  id: string; // Decimal uint256, as the relayer expects it
+  name: string;
+  symbol: string;
+  tokenURI: string;
+}
+
+// What a single stake may be, from the card's balance and the relayer's config
+export interface StakeLimits {
+  balance: bigint;
+  maxStakePerTx: bigint;
+  maxStakePerChoice: bigint | null;
+}
+
+export interface StakeSplit {
+  choiceIds: string[];
+  amounts: bigint[];
+}
+
+// Whole TEST with up to 18 decimals
+const AMOUNT_PATTERN = /^\d+(\.\d{1,18})?$/;
+
+// Short label for a choice, falling back to its ID when it has no name yet
+export const choiceLabel = (choice: SessionChoice): string =>
+  choice.name || `Choice ${choice.id.slice(0, 6)}…`;
+
+// Read name, symbol and tokenURI for each of the session's choice IDs
+export const loadSessionChoices = (
+  publicClient: Pick<PublicClient, 'readContract'>,
+  stakeChoices: Address,
+  choiceIds: string[]
+): Promise<SessionChoice[]> =>
+  Promise.all(
+    choiceIds.map(async (id) => {
+      const read = (functionName: 'name' | 'symbol' | 'tokenURI') =>
+        publicClient.readContract({
+          address: stakeChoices,
+          abi: STAKE_CHOICES_ABI,
+          functionName,
+          args: [BigInt(id)],
+        });
+      const [name, symbol, tokenURI] = await Promise.all([
+        read('name'),
+        read('symbol'),
+        read('tokenURI'),
+      ]);
+      return { id, name, symbol, tokenURI };
+    })
+  );
+
+/**
+ * Check a split of TEST across the picked choices against the card's balance
+ * and the relayer's limits. Returns the split in wei, or a message saying
+ * what to fix.
+ */
+export const validateStakeSplit = (
+  entries: { choice: SessionChoice; amount: string }[],
+  limits: StakeLimits
+): { split: StakeSplit } | { error: string } => {
+  if (entries.length === 0) {
+    return { error: 'Pick at least one choice' };
+  }
+
+  const split: StakeSplit = { choiceIds: [], amounts: [] };
+  for (const { choice, amount } of entries) {
+    const value = amount.trim();
+    if (!AMOUNT_PATTERN.test(value)) {
+      return { error: `Enter a TEST amount for ${choiceLabel(choice)}` };
+    }
+    const wei = parseEther(value);
+    if (wei === 0n) {
+      return { error: `Offer more than 0 TEST to ${choiceLabel(choice)}` };
+    }
+    if (limits.maxStakePerChoice !== null && wei > limits.maxStakePerChoice) {
+      return {
+        error: `At most ${formatEther(limits.maxStakePerChoice)} TEST per choice`,
+      };
+    }
+    split.choiceIds.push(choice.id);
+    split.amounts.push(wei);
+  }
+
+  const total = split.amounts.reduce((sum, wei) => sum + wei, 0n);
+  if (total > limits.maxStakePerTx) {
+    return {
+      error: `An offering can be at most ${formatEther(limits.maxStakePerTx)} TEST`,
+    };
+  }
+  if (total > limits.balance) {
+    return {
+      error: `Your card holds only ${formatEther(limits.balance)} TEST`,
+    };
+  }
+  return { split };
+};
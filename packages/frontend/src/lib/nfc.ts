@@ -1,9 +1,18 @@
 import { execHaloCmdWeb } from '@arx-research/libhalo/api/web';
 import {
+  hashMessage,
+  hashTypedData,
+  hexToBigInt,
+  isAddressEqual,
   keccak256,
+  numberToHex,
+  recoverMessageAddress,
+  recoverTypedDataAddress,
   serializeTransaction,
   type Hex,
-  type TransactionSerializable
+  type TransactionSerializable,
+  type TypedData,
+  type TypedDataDefinition
 } from 'viem';
 import {
   hashAuthorization,
@@ -26,6 +35,28 @@ interface HaloSignCommand {
   format?: 'text' | 'hex';
 }
 
+// secp256k1 group order; signatures with s above half of it are malleable
+const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+/**
+ * Bring a card signature into the r || s || v form contracts and viem expect:
+ * low s (EIP-2) and v of 27 or 28. Flipping s to n - s also flips the parity.
+ */
+const normalizeSignature = (signature: Hex): Hex => {
+  const r = signature.slice(2, 66);
+  let s = hexToBigInt(`0x${signature.slice(66, 130)}`);
+  const v = parseInt(signature.slice(130, 132), 16);
+  let yParity = v >= 27 ? v - 27 : v;
+  if (yParity !== 0 && yParity !== 1) {
+    throw new Error(`Card returned a signature with invalid v: ${v}`);
+  }
+  if (s > SECP256K1_N / 2n) {
+    s = SECP256K1_N - s;
+    yParity = 1 - yParity;
+  }
+  return `0x${r}${numberToHex(s, { size: 32 }).slice(2)}${(27 + yParity).toString(16)}` as Hex;
+};
+
 // Simple mobile detection
 const isMobile = () => /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
 
@@ -186,32 +217,19 @@ export const createNFCAccount = (address: `0x${string}`) => {
   return {
     type: 'local' as const,
     address,
-    signMessage: async ({ message }: { message: string | { raw: Hex } }) => {
-      // Check if this is an EIP-7702 authorization message
-      // EIP-7702 messages start with 0x05 magic byte
-      let isEIP7702 = false;
-      let messageToSign;
-
-      if (typeof message === 'object' && 'raw' in message) {
-        const rawHex = message.raw;
-        // Check if this looks like an EIP-7702 message (starts with 0x05)
-        if (rawHex.length > 4 && rawHex.slice(0, 4) === '0x05') {
-          console.log('📱 NFC: Detected EIP-7702 authorization message');
-          isEIP7702 = true;
-          // For EIP-7702, we need to hash the message and sign the raw digest
-          const digest = keccak256(message.raw);
-          console.log('📱 NFC: EIP-7702 digest to sign:', digest);
-          messageToSign = digest;
-        } else {
-          messageToSign = message.raw;
-        }
-      } else {
-        // String message
-        messageToSign = message;
+    signMessage: async ({ message }: { message: string | { raw: Hex } }): Promise<Hex> => {
+      // Always EIP-191 personal_sign, hashed here so strings are UTF-8 and raw messages are
+      // bytes as viem defines them; EIP-7702 authorizations go through signAuthorization
+      const digest = hashMessage(message);
+      console.log('📱 NFC: Message digest to sign:', digest);
+
+      const signature = normalizeSignature(await signWithNFC(digest, true));
+
+      const recoveredAddress = await recoverMessageAddress({ message, signature });
+      if (!isAddressEqual(recoveredAddress, address)) {
+        throw new Error(`Message signature recovers to ${recoveredAddress}, not the card address ${address}`);
       }
 
-      // Sign with NFC - use raw digest mode for EIP-7702
-      const signature = await signWithNFC(messageToSign, isEIP7702);
       return signature;
     },
     signTransaction: async (transaction: TransactionSerializable) => {
@@ -251,8 +269,29 @@ export const createNFCAccount = (address: `0x${string}`) => {
       console.log('📱 NFC: Signed transaction:', signedTx);
       return signedTx;
     },
-    signTypedData: async () => {
-      throw new Error('Typed data signing not yet implemented');
+    signTypedData: async <
+      const typedData extends TypedData | Record<string, unknown>,
+      primaryType extends keyof typedData | 'EIP712Domain' = keyof typedData
+    >(typedData: TypedDataDefinition<typedData, primaryType>): Promise<Hex> => {
+      console.log('📱 NFC: signTypedData called with:', {
+        domain: typedData.domain,
+        primaryType: typedData.primaryType
+      });
+
+      // EIP-712 digest: keccak256(0x1901 || domainSeparator || hashStruct(message))
+      const digest = hashTypedData(typedData);
+      console.log('📱 NFC: Typed data digest to sign:', digest);
+
+      const signature = normalizeSignature(await signWithNFC(digest, true));
+      console.log('📱 NFC: Typed data signature:', signature);
+
+      // A card that signed with another key, or a digest mangled on the way, must not pass as the user
+      const recoveredAddress = await recoverTypedDataAddress<typedData, primaryType>({ ...typedData, signature });
+      if (!isAddressEqual(recoveredAddress, address)) {
+        throw new Error(`Typed data signature recovers to ${recoveredAddress}, not the card address ${address}`);
+      }
+
+      return signature;
     },
     signAuthorization: async (authorization: Authorization) => {
       console.log('📱 NFC: signAuthorization called with:', authorization);
@@ -0,0 +1,112 @@
+import { logPages } from '@tap-stake/sdk';
+import { zeroAddress, type Address, type Hex, type PublicClient } from 'viem';
+import { STAKE_CHOICES_ABI, type SessionChoice } from './choices';
+
+export interface StakePosition {
+  choice: SessionChoice;
+  balance: bigint; // ERC6909 receipts the card holds
+  totalSupply: bigint; // Receipts held by everyone
+}
+
+// One addStakes or removeStakes transaction, with a line per choice it touched
+export interface StakeHistoryEntry {
+  kind: 'stake' | 'unstake';
+  txHash: Hex;
+  blockNumber: bigint;
+  amounts: { choiceId: string; amount: bigint }[];
+}
+
+// Helper to express a position as a percentage of its choice's supply, two decimals
+export const shareOfSupply = (position: StakePosition): string => {
+  if (position.totalSupply === 0n) return '0.00';
+  const basisPoints = (position.balance * 10_000n) / position.totalSupply;
+  const fraction = (basisPoints % 100n).toString().padStart(2, '0');
+  return `${basisPoints / 100n}.${fraction}`;
+};
+
+// Read the card's receipt balance and the total supply of every choice in the session
+export const loadStakePositions = (
+  publicClient: Pick<PublicClient, 'readContract'>,
+  stakeChoices: Address,
+  owner: Address,
+  choices: SessionChoice[]
+): Promise<StakePosition[]> =>
+  Promise.all(
+    choices.map(async (choice) => {
+      const [balance, totalSupply] = await Promise.all([
+        publicClient.readContract({
+          address: stakeChoices,
+          abi: STAKE_CHOICES_ABI,
+          functionName: 'balanceOf',
+          args: [owner, BigInt(choice.id)],
+        }),
+        publicClient.readContract({
+          address: stakeChoices,
+          abi: STAKE_CHOICES_ABI,
+          functionName: 'totalSupply',
+          args: [BigInt(choice.id)],
+        }),
+      ]);
+      return { choice, balance, totalSupply };
+    })
+  );
+
+/**
+ * The card's stakes and unstakes, newest first. addStakes mints receipts to
+ * the card and removeStakes burns them, so both show up as ERC6909 Transfer
+ * events to or from the zero address. Events are read from `fromBlock` (the
+ * session's deploy block) in pages of LOG_BLOCK_RANGE blocks, since public
+ * RPCs reject wider eth_getLogs ranges.
+ */
+export const loadStakeHistory = async (
+  publicClient: Pick<PublicClient, 'getBlockNumber' | 'getContractEvents'>,
+  stakeChoices: Address,
+  owner: Address,
+  fromBlock: bigint
+): Promise<StakeHistoryEntry[]> => {
+  const pages = logPages(fromBlock, await publicClient.getBlockNumber());
+  const query = async (sender: Address, receiver: Address) => {
+    const logs = [];
+    for (const page of pages) {
+      logs.push(
+        ...(await publicClient.getContractEvents({
+          address: stakeChoices,
+          abi: STAKE_CHOICES_ABI,
+          eventName: 'Transfer',
+          args: { sender, receiver },
+          fromBlock: page.fromBlock,
+          toBlock: page.toBlock,
+        }))
+      );
+    }
+    return logs;
+  };
+  const [mints, burns] = await Promise.all([
+    query(zeroAddress, owner),
+    query(owner, zeroAddress),
+  ]);
+
+  // A multi-choice stake emits one Transfer per choice in the same transaction
+  const entries = new Map<Hex, StakeHistoryEntry>();
+  for (const [kind, logs] of [
+    ['stake', mints],
+    ['unstake', burns],
+  ] as const) {
+    for (const log of logs) {
+      const entry = entries.get(log.transactionHash) ?? {
+        kind,
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        amounts: [],
+      };
+      entry.amounts.push({
+        choiceId: log.args.id!.toString(),
+        amount: log.args.amount!,
+      });
+      entries.set(log.transactionHash, entry);
+    }
+  }
+  return [...entries.values()].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? 0 : a.blockNumber > b.blockNumber ? -1 : 1
+  );
+};
@@ -0,0 +1,114 @@
+import { logPages, STAKE_CHOICES_FACTORY_ABI } from '@tap-stake/sdk';
+import {
+  encodePacked,
+  isHex,
+  keccak256,
+  numberToHex,
+  size,
+  stringToHex,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { STAKE_CHOICES_ABI } from './choices';
+
+// Must match _ID_NAMESPACE in StakeChoicesERC6909
+const CHOICE_ID_NAMESPACE = 'v1.stakechoices';
+
+export interface Session {
+  address: Address;
+  stakingToken: Address;
+  name: string;
+  blockNumber: bigint;
+}
+
+export interface RegisteredChoice {
+  id: string;
+  name: string;
+}
+
+/**
+ * Read a bytes32 salt the way operators write them: 0x-prefixed hex of up to
+ * 32 bytes, a decimal number (the forge scripts use bytes32(1) and up), or
+ * text of up to 32 bytes. Returns null when it fits none of these.
+ */
+export const parseSalt = (input: string): Hex | null => {
+  const value = input.trim();
+  if (!value) return null;
+  if (isHex(value)) {
+    return value.length > 2 && size(value) <= 32
+      ? numberToHex(BigInt(value), { size: 32 })
+      : null;
+  }
+  if (/^\d+$/.test(value)) {
+    const salt = BigInt(value);
+    return salt < 2n ** 256n ? numberToHex(salt, { size: 32 }) : null;
+  }
+  return new TextEncoder().encode(value).length <= 32
+    ? stringToHex(value, { size: 32 })
+    : null;
+};
+
+// Same as computeId on StakeChoicesERC6909: the choice ID registerChoice assigns
+export const computeChoiceId = (creator: Address, salt: Hex): bigint =>
+  BigInt(
+    keccak256(
+      encodePacked(
+        ['string', 'address', 'bytes32'],
+        [CHOICE_ID_NAMESPACE, creator, salt]
+      )
+    )
+  );
+
+// Every session the factory has deployed, newest first. Read in pages of
+// LOG_BLOCK_RANGE blocks, since public RPCs reject wider eth_getLogs ranges.
+export const loadSessions = async (
+  publicClient: Pick<PublicClient, 'getBlockNumber' | 'getContractEvents'>,
+  factory: Address,
+  fromBlock: bigint
+): Promise<Session[]> => {
+  const logs = [];
+  for (const page of logPages(fromBlock, await publicClient.getBlockNumber())) {
+    logs.push(
+      ...(await publicClient.getContractEvents({
+        address: factory,
+        abi: STAKE_CHOICES_FACTORY_ABI,
+        eventName: 'TokenDeployed',
+        fromBlock: page.fromBlock,
+        toBlock: page.toBlock,
+      }))
+    );
+  }
+  return logs
+    .map((log) => ({
+      address: log.args.tokenAddress!,
+      stakingToken: log.args.stakingToken!,
+      name: log.args.tokenName ?? '',
+      blockNumber: log.blockNumber,
+    }))
+    .reverse();
+};
+
+// Choices registered on a session, from its ERC6909NameUpdated events, paged the same way
+export const loadRegisteredChoices = async (
+  publicClient: Pick<PublicClient, 'getBlockNumber' | 'getContractEvents'>,
+  session: Address,
+  fromBlock: bigint
+): Promise<RegisteredChoice[]> => {
+  const choices: RegisteredChoice[] = [];
+  for (const page of logPages(fromBlock, await publicClient.getBlockNumber())) {
+    const logs = await publicClient.getContractEvents({
+      address: session,
+      abi: STAKE_CHOICES_ABI,
+      eventName: 'ERC6909NameUpdated',
+      fromBlock: page.fromBlock,
+      toBlock: page.toBlock,
+    });
+    // Names are write-once (registerChoice reverts with MetadataAlreadySet), so
+    // every event is one choice's registration
+    for (const log of logs) {
+      choices.push({ id: log.args.id!.toString(), name: log.args.newName ?? '' });
+    }
+  }
+  return choices;
+};
@@ -0,0 +1,73 @@
+import { LOG_BLOCK_RANGE } from '@tap-stake/sdk';
+import { zeroAddress, type Address, type Hex, type PublicClient } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { loadStakeHistory } from '../src/lib/portfolio';
+
+const STAKE_CHOICES: Address = '0x2222222222222222222222222222222222222222';
+const OWNER: Address = '0x3333333333333333333333333333333333333333';
+const DEPLOY_BLOCK = 34_321_234n;
+
+interface TransferLog {
+  blockNumber: bigint;
+  transactionHash: Hex;
+  args: { sender: Address; receiver: Address; id: bigint; amount: bigint };
+}
+
+// Helper to stub an RPC that, like public endpoints, rejects wide eth_getLogs ranges
+function logsClient(latest: bigint, transfers: TransferLog[]) {
+  const ranges: { fromBlock: bigint; toBlock: bigint }[] = [];
+  const client = {
+    getBlockNumber: async () => latest,
+    getContractEvents: async ({ args, fromBlock, toBlock }: {
+      args: { sender: Address; receiver: Address };
+      fromBlock: bigint;
+      toBlock: bigint;
+    }) => {
+      if (toBlock - fromBlock + 1n > LOG_BLOCK_RANGE) {
+        throw new Error('eth_getLogs block range too large');
+      }
+      if (args.sender === zeroAddress) {
+        ranges.push({ fromBlock, toBlock });
+      }
+      return transfers.filter(log =>
+        log.blockNumber >= fromBlock
+        && log.blockNumber <= toBlock
+        && log.args.sender === args.sender
+        && log.args.receiver === args.receiver
+      );
+    },
+  } as unknown as Pick<PublicClient, 'getBlockNumber' | 'getContractEvents'>;
+  return { client, ranges };
+}
+
+describe('loadStakeHistory', () => {
+  it('reads a session spanning several log pages', async () => {
+    const latest = DEPLOY_BLOCK + 2n * LOG_BLOCK_RANGE + 500n;
+    const { client, ranges: mintRanges } = logsClient(latest, [
+      { blockNumber: DEPLOY_BLOCK + 10n, transactionHash: '0x01', args: { sender: zeroAddress, receiver: OWNER, id: 1n, amount: 5n } },
+      { blockNumber: DEPLOY_BLOCK + 10n, transactionHash: '0x01', args: { sender: zeroAddress, receiver: OWNER, id: 2n, amount: 7n } },
+      { blockNumber: DEPLOY_BLOCK + LOG_BLOCK_RANGE + 3n, transactionHash: '0x02', args: { sender: OWNER, receiver: zeroAddress, id: 1n, amount: 2n } },
+      { blockNumber: latest, transactionHash: '0x03', args: { sender: zeroAddress, receiver: OWNER, id: 2n, amount: 1n } },
+    ]);
+
+    const history = await loadStakeHistory(client, STAKE_CHOICES, OWNER, DEPLOY_BLOCK);
+
+    expect(history).toEqual([
+      { kind: 'stake', txHash: '0x03', blockNumber: latest, amounts: [{ choiceId: '2', amount: 1n }] },
+      { kind: 'unstake', txHash: '0x02', blockNumber: DEPLOY_BLOCK + LOG_BLOCK_RANGE + 3n, amounts: [{ choiceId: '1', amount: 2n }] },
+      {
+        kind: 'stake',
+        txHash: '0x01',
+        blockNumber: DEPLOY_BLOCK + 10n,
+        amounts: [{ choiceId: '1', amount: 5n }, { choiceId: '2', amount: 7n }],
+      },
+    ]);
+
+    // The mints were read in three pages, together covering every block once
+    expect(mintRanges).toEqual([
+      { fromBlock: DEPLOY_BLOCK, toBlock: DEPLOY_BLOCK + LOG_BLOCK_RANGE - 1n },
+      { fromBlock: DEPLOY_BLOCK + LOG_BLOCK_RANGE, toBlock: DEPLOY_BLOCK + 2n * LOG_BLOCK_RANGE - 1n },
+      { fromBlock: DEPLOY_BLOCK + 2n * LOG_BLOCK_RANGE, toBlock: latest },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { LOG_BLOCK_RANGE } from '@tap-stake/sdk';
+import type { Address, PublicClient } from 'viem';
+import { describe, expect, it } from 'vitest';
+import { loadRegisteredChoices, loadSessions } from '../src/lib/sessions';
+
+const FACTORY: Address = '0x4444444444444444444444444444444444444444';
+const SESSION: Address = '0x5555555555555555555555555555555555555555';
+const DEPLOY_BLOCK = 34_321_234n;
+const LATEST = DEPLOY_BLOCK + 2n * LOG_BLOCK_RANGE + 500n;
+
+interface EventLog {
+  eventName: string;
+  blockNumber: bigint;
+  args: Record<string, unknown>;
+}
+
+// Helper to stub an RPC that, like public endpoints, rejects wide eth_getLogs ranges
+function logsClient(events: EventLog[]) {
+  const ranges: { fromBlock: bigint; toBlock: bigint }[] = [];
+  const client = {
+    getBlockNumber: async () => LATEST,
+    getContractEvents: async ({ eventName, fromBlock, toBlock }: {
+      eventName: string;
+      fromBlock: bigint;
+      toBlock: bigint;
+    }) => {
+      if (toBlock - fromBlock + 1n > LOG_BLOCK_RANGE) {
+        throw new Error('eth_getLogs block range too large');
+      }
+      ranges.push({ fromBlock, toBlock });
+      return events.filter(log =>
+        log.eventName === eventName && log.blockNumber >= fromBlock && log.blockNumber <= toBlock
+      );
+    },
+  } as unknown as Pick<PublicClient, 'getBlockNumber' | 'getContractEvents'>;
+  return { client, ranges };
+}
+
+const PAGES = [
+  { fromBlock: DEPLOY_BLOCK, toBlock: DEPLOY_BLOCK + LOG_BLOCK_RANGE - 1n },
+  { fromBlock: DEPLOY_BLOCK + LOG_BLOCK_RANGE, toBlock: DEPLOY_BLOCK + 2n * LOG_BLOCK_RANGE - 1n },
+  { fromBlock: DEPLOY_BLOCK + 2n * LOG_BLOCK_RANGE, toBlock: LATEST },
+];
+
+describe('loadSessions', () => {
+  it('reads sessions deployed across several log pages, newest first', async () => {
+    const deployed = (address: Address, name: string, blockNumber: bigint): EventLog => ({
+      eventName: 'TokenDeployed',
+      blockNumber,
+      args: { tokenAddress: address, stakingToken: FACTORY, tokenName: name },
+    });
+    const { client, ranges } = logsClient([
+      deployed('0x0000000000000000000000000000000000000001', 'First', DEPLOY_BLOCK),
+      deployed('0x0000000000000000000000000000000000000002', 'Second', DEPLOY_BLOCK + LOG_BLOCK_RANGE),
+      deployed('0x0000000000000000000000000000000000000003', 'Third', LATEST),
+    ]);
+
+    const sessions = await loadSessions(client, FACTORY, DEPLOY_BLOCK);
+
+    expect(sessions.map(session => [session.name, session.blockNumber])).toEqual([
+      ['Third', LATEST],
+      ['Second', DEPLOY_BLOCK + LOG_BLOCK_RANGE],
+      ['First', DEPLOY_BLOCK],
+    ]);
+    expect(ranges).toEqual(PAGES);
+  });
+});
+
+describe('loadRegisteredChoices', () => {
+  it('reads registrations across several log pages', async () => {
+    const registered = (id: bigint, name: string, blockNumber: bigint): EventLog => ({
+      eventName: 'ERC6909NameUpdated',
+      blockNumber,
+      args: { id, newName: name },
+    });
+    const { client, ranges } = logsClient([
+      registered(1n, 'Sword', DEPLOY_BLOCK + 5n),
+      registered(2n, 'Shield', DEPLOY_BLOCK + LOG_BLOCK_RANGE + 5n),
+      registered(3n, 'Bow', LATEST),
+    ]);
+
+    const choices = await loadRegisteredChoices(client, SESSION, DEPLOY_BLOCK);
+
+    expect(choices).toEqual([
+      { id: '1', name: 'Sword' },
+      { id: '2', name: 'Shield' },
+      { id: '3', name: 'Bow' },
+    ]);
+    expect(ranges).toEqual(PAGES);
+  });
+});
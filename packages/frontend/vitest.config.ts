@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests only cover src/lib, which needs none of the app's Vite plugins
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+  },
+});
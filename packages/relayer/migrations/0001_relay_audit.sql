@@ -0,0 +1,25 @@
+-- Audit log of every POST /v1/relay attempt, written by the worker and
+-- updated with the final outcome by the RelayQueue once a receipt lands
+CREATE TABLE relay_audit (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at INTEGER NOT NULL,       -- Unix time in milliseconds
+  chain_id INTEGER,
+  operation TEXT,                    -- stake | unstake
+  eoa TEXT,                          -- Lowercased, null if the request failed before recovery
+  choice_ids TEXT NOT NULL DEFAULT '[]', -- JSON array of decimal strings
+  amounts TEXT NOT NULL DEFAULT '[]',    -- JSON array of decimal strings
+  total_amount TEXT,
+  status TEXT NOT NULL,              -- rejected | dry_run | duplicate | pending | confirmed | failed
+  tx_hash TEXT,
+  mined_hash TEXT,                   -- Differs from tx_hash when a fee-bumped replacement was mined
+  relayer_nonce INTEGER,
+  gas_used TEXT,
+  gas_cost TEXT,                     -- Wei paid by the relayer, including the OP-stack L1 data fee
+  block_number TEXT,
+  error_code TEXT,
+  error_message TEXT
+);
+
+CREATE INDEX relay_audit_created_at ON relay_audit (created_at);
+CREATE INDEX relay_audit_eoa ON relay_audit (eoa, created_at);
+CREATE INDEX relay_audit_tx_hash ON relay_audit (tx_hash);
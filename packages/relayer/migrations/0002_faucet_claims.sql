@@ -0,0 +1,13 @@
+-- Testnet faucet claims, used to rate-limit POST /v1/faucet per address and per IP
+CREATE TABLE faucet_claims (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  created_at INTEGER NOT NULL,       -- Unix time in milliseconds
+  chain_id INTEGER NOT NULL,
+  address TEXT NOT NULL,             -- Lowercased recipient
+  ip TEXT,                           -- CF-Connecting-IP of the caller
+  amount TEXT NOT NULL,              -- Wei minted
+  tx_hash TEXT                       -- Null until the mint has been queued
+);
+
+CREATE INDEX faucet_claims_address ON faucet_claims (chain_id, address, created_at);
+CREATE INDEX faucet_claims_ip ON faucet_claims (chain_id, ip, created_at);
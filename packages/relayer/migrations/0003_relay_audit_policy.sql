@@ -0,0 +1,6 @@
+-- Sponsorship policy bookkeeping: gas budgets count the simulated estimate until
+-- the receipt's gas_used is known, and rejections record which rule fired
+ALTER TABLE relay_audit ADD COLUMN gas_estimate TEXT;
+ALTER TABLE relay_audit ADD COLUMN policy_rule TEXT;
+
+CREATE INDEX relay_audit_chain_created_at ON relay_audit (chain_id, created_at);
@@ -0,0 +1,2 @@
+-- Batched relays share a tx_hash; batch_index is each relay's call in the batch
+ALTER TABLE relay_audit ADD COLUMN batch_index INTEGER;
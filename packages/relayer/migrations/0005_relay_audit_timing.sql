@@ -0,0 +1,4 @@
+-- When the relay's transaction was broadcast and when its outcome was recorded
+-- (Unix ms), for the time-to-broadcast and time-to-confirm metrics
+ALTER TABLE relay_audit ADD COLUMN broadcast_at INTEGER;
+ALTER TABLE relay_audit ADD COLUMN finalized_at INTEGER;
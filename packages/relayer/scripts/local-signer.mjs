@@ -0,0 +1,95 @@
+// Local stand-in for a web3signer-style remote signer, for wrangler dev and tests.
+// Holds one key and answers eth_accounts and eth_signTransaction over JSON-RPC.
+//
+//   SIGNER_PRIVATE_KEY=0x... [SIGNER_PORT=9000] [SIGNER_AUTH_TOKEN=...] npm run signer
+//
+// Then run the worker with SIGNER_URL=http://localhost:9000 and SIGNER_ADDRESS set
+// to the address this prints, instead of PRIVATE_KEY.
+import { createServer } from 'node:http';
+import { hexToBigInt, hexToNumber, isAddressEqual, pad } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+
+const port = Number(process.env.SIGNER_PORT ?? 9000);
+const authToken = process.env.SIGNER_AUTH_TOKEN;
+if (!process.env.SIGNER_PRIVATE_KEY) {
+  console.error('Set SIGNER_PRIVATE_KEY to the key this signer should hold');
+  process.exit(1);
+}
+const account = privateKeyToAccount(process.env.SIGNER_PRIVATE_KEY);
+
+const TRANSACTION_TYPES = { '0x0': 'legacy', '0x1': 'eip2930', '0x2': 'eip1559', '0x4': 'eip7702' };
+
+// JSON-RPC transaction request to the shape viem signs
+function toSerializable(request) {
+  const quantity = value => (value === undefined ? undefined : hexToBigInt(value));
+  return {
+    type: TRANSACTION_TYPES[request.type ?? '0x2'],
+    chainId: hexToNumber(request.chainId),
+    nonce: hexToNumber(request.nonce),
+    to: request.to,
+    data: request.data ?? request.input,
+    value: quantity(request.value),
+    gas: quantity(request.gas),
+    gasPrice: quantity(request.gasPrice),
+    maxFeePerGas: quantity(request.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(request.maxPriorityFeePerGas),
+    accessList: request.accessList,
+    // RPC formatting drops leading zeros from r and s; signatures need the full 32 bytes
+    authorizationList: request.authorizationList?.map(authorization => ({
+      address: authorization.address,
+      chainId: hexToNumber(authorization.chainId),
+      nonce: hexToNumber(authorization.nonce),
+      r: pad(authorization.r, { size: 32 }),
+      s: pad(authorization.s, { size: 32 }),
+      yParity: hexToNumber(authorization.yParity),
+    })),
+  };
+}
+
+async function handle(method, params) {
+  switch (method) {
+    case 'eth_accounts':
+      return [account.address];
+    case 'eth_signTransaction': {
+      const [request] = params;
+      if (!request?.from || !isAddressEqual(request.from, account.address)) {
+        throw Object.assign(new Error(`No key for ${request?.from}`), { code: -32000 });
+      }
+      return account.signTransaction(toSerializable(request));
+    }
+    default:
+      throw Object.assign(new Error(`Method ${method} not supported`), { code: -32601 });
+  }
+}
+
+const server = createServer(async (req, res) => {
+  // web3signer's health check
+  if (req.method === 'GET' && req.url === '/upcheck') {
+    res.end('OK');
+    return;
+  }
+  if (authToken && req.headers.authorization !== `Bearer ${authToken}`) {
+    res.writeHead(401).end();
+    return;
+  }
+
+  let body = '';
+  for await (const chunk of req) body += chunk;
+
+  let id = null;
+  let reply;
+  try {
+    const call = JSON.parse(body);
+    id = call.id ?? null;
+    reply = { jsonrpc: '2.0', id, result: await handle(call.method, call.params ?? []) };
+    console.log(`${call.method} ok`);
+  } catch (error) {
+    reply = { jsonrpc: '2.0', id, error: { code: error.code ?? -32603, message: error.message } };
+    console.log(`request failed: ${error.message}`);
+  }
+  res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(reply));
+});
+
+server.listen(port, () => {
+  console.log(`Local signer for ${account.address} listening on http://localhost:${port}`);
+});
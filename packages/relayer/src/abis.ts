@@ -0,0 +1,24 @@
+import {
+  COMMITMENT_STORE_ABI,
+  RELAY_BATCH_EXECUTOR_ABI,
+  STAKE_CHOICES_ERC6909_ABI,
+  STAKER_WALLET_ABI,
+  TEST_ERC20_ABI,
+} from '@tap-stake/sdk';
+
+// Generated from the Foundry artifacts; see packages/sdk/scripts/generate-contracts.mjs
+export { COMMITMENT_STORE_ABI, RELAY_BATCH_EXECUTOR_ABI, STAKER_WALLET_ABI };
+
+// ERC6909 receipt balances, choice metadata and errors on a StakeChoicesERC6909 session
+export const STAKE_CHOICES_ABI = STAKE_CHOICES_ERC6909_ABI;
+
+// Staking token reads, plus the public mint on the testnet TestERC20 used by the faucet
+export const STAKING_TOKEN_ABI = TEST_ERC20_ABI;
+
+// Every custom error a relayed call can revert with, including the OpenZeppelin
+// ERC20 errors SafeERC20 bubbles up from the staking token
+export const RELAY_ERRORS_ABI = [
+  ...STAKER_WALLET_ABI,
+  ...STAKE_CHOICES_ERC6909_ABI,
+  ...TEST_ERC20_ABI,
+].filter(item => item.type === 'error');
@@ -0,0 +1,448 @@
+import type { Address, Hex } from 'viem';
+import type { RelayErrorCode } from './errors';
+import type { RelayOperation } from './types';
+
+export type AuditStatus = 'rejected' | 'dry_run' | 'duplicate' | 'pending' | 'confirmed' | 'failed';
+
+// Upper bound on rows per admin page and per CSV export
+export const MAX_AUDIT_PAGE_SIZE = 500;
+export const MAX_AUDIT_EXPORT_ROWS = 10_000;
+
+/**
+ * One POST /v1/relay attempt. The relay handler fills it in as it learns more
+ * about the request, and it is written once the response is decided.
+ */
+export interface RelayAttempt {
+  createdAt: number;
+  chainId?: number;
+  operation?: RelayOperation;
+  eoa?: Address;
+  choiceIds?: bigint[];
+  amounts?: bigint[];
+  status?: AuditStatus;
+  txHash?: Hex;
+  relayerNonce?: number;
+  batchIndex?: number; // Position in a batched transaction
+  gasEstimate?: bigint;
+  broadcastAt?: number; // Unix ms, once the queue has sent the transaction
+  errorCode?: RelayErrorCode;
+  errorMessage?: string;
+  policyRule?: string; // Sponsorship policy rule behind a POLICY_VIOLATION
+}
+
+// A relay_audit row as returned by the admin API
+export interface AuditEntry {
+  id: number;
+  createdAt: string; // ISO 8601
+  chainId: number | null;
+  operation: string | null;
+  eoa: string | null;
+  choiceIds: string[];
+  amounts: string[];
+  totalAmount: string | null;
+  status: AuditStatus;
+  txHash: string | null;
+  minedHash: string | null;
+  relayerNonce: number | null;
+  batchIndex: number | null;
+  gasUsed: string | null;
+  gasCost: string | null; // Wei
+  gasEstimate: string | null;
+  blockNumber: string | null;
+  broadcastAt: string | null; // ISO 8601
+  finalizedAt: string | null; // ISO 8601, when the outcome was recorded
+  errorCode: string | null;
+  errorMessage: string | null;
+  policyRule: string | null;
+}
+
+export interface AuditFilters {
+  eoa?: string;
+  chainId?: number;
+  status?: string;
+  errorCode?: string;
+  txHash?: string;
+  from?: number; // Unix ms, inclusive
+  to?: number; // Unix ms, exclusive
+}
+
+interface AuditRow {
+  id: number;
+  created_at: number;
+  chain_id: number | null;
+  operation: string | null;
+  eoa: string | null;
+  choice_ids: string;
+  amounts: string;
+  total_amount: string | null;
+  status: AuditStatus;
+  tx_hash: string | null;
+  mined_hash: string | null;
+  relayer_nonce: number | null;
+  batch_index: number | null;
+  gas_used: string | null;
+  gas_cost: string | null;
+  gas_estimate: string | null;
+  block_number: string | null;
+  broadcast_at: number | null;
+  finalized_at: number | null;
+  error_code: string | null;
+  error_message: string | null;
+  policy_rule: string | null;
+}
+
+// Write a relay attempt to the audit log
+export async function recordRelayAttempt(db: D1Database, attempt: RelayAttempt): Promise<void> {
+  const totalAmount = attempt.amounts?.reduce((sum, amt) => sum + amt, 0n);
+  await db
+    .prepare(
+      `INSERT INTO relay_audit
+        (created_at, chain_id, operation, eoa, choice_ids, amounts, total_amount, status, tx_hash, relayer_nonce,
+         batch_index, gas_estimate, broadcast_at, error_code, error_message, policy_rule)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      attempt.createdAt,
+      attempt.chainId ?? null,
+      attempt.operation ?? null,
+      attempt.eoa?.toLowerCase() ?? null,
+      JSON.stringify((attempt.choiceIds ?? []).map(id => id.toString())),
+      JSON.stringify((attempt.amounts ?? []).map(amt => amt.toString())),
+      totalAmount?.toString() ?? null,
+      attempt.status ?? 'rejected',
+      attempt.txHash ?? null,
+      attempt.relayerNonce ?? null,
+      attempt.batchIndex ?? null,
+      attempt.gasEstimate?.toString() ?? null,
+      attempt.broadcastAt ?? null,
+      attempt.errorCode ?? null,
+      attempt.errorMessage ?? null,
+      attempt.policyRule ?? null
+    )
+    .run();
+}
+
+/**
+ * Record the final outcome of a relayed transaction on every pending audit row
+ * that sent one of its hashes (the original and any fee-bumped replacements).
+ * Each relay in a batch gets its own call's status and an even share of the gas.
+ */
+export async function recordRelayOutcome(
+  db: D1Database,
+  hashes: Hex[],
+  outcome: {
+    status: 'confirmed' | 'failed';
+    minedHash: Hex;
+    gasUsed: string;
+    gasCost: string;
+    blockNumber: string;
+    batchResults?: boolean[];
+  }
+): Promise<void> {
+  const finalizedAt = Date.now();
+  const sql = `UPDATE relay_audit SET status = ?, mined_hash = ?, gas_used = ?, gas_cost = ?, block_number = ?,
+       finalized_at = ? WHERE status = 'pending' AND tx_hash IN (${hashes.map(() => '?').join(', ')})`;
+
+  if (!outcome.batchResults) {
+    await db
+      .prepare(sql)
+      .bind(outcome.status, outcome.minedHash, outcome.gasUsed, outcome.gasCost, outcome.blockNumber, finalizedAt, ...hashes)
+      .run();
+    return;
+  }
+
+  const size = BigInt(outcome.batchResults.length);
+  const gasUsed = (BigInt(outcome.gasUsed) / size).toString();
+  const gasCost = (BigInt(outcome.gasCost) / size).toString();
+  await db.batch(
+    outcome.batchResults.map((success, batchIndex) =>
+      db
+        .prepare(`${sql} AND batch_index = ?`)
+        .bind(
+          success ? 'confirmed' : 'failed',
+          outcome.minedHash,
+          gasUsed,
+          gasCost,
+          outcome.blockNumber,
+          finalizedAt,
+          ...hashes,
+          batchIndex
+        )
+    )
+  );
+}
+
+/**
+ * Stake and gas sponsored on a chain since `since`, overall and for one EOA.
+ * Gas counts the receipt's gas_used once mined and the simulated estimate
+ * before that; failed transactions still burned gas, so they count too.
+ */
+export async function sponsoredUsageSince(
+  db: D1Database,
+  params: { chainId: number; eoa: Address; since: number }
+): Promise<{ eoaStake: bigint; eoaGas: bigint; globalGas: bigint }> {
+  const { results } = await db
+    .prepare(
+      `SELECT eoa, operation, status, total_amount, COALESCE(gas_used, gas_estimate) AS gas
+       FROM relay_audit
+       WHERE chain_id = ? AND created_at >= ? AND status IN ('pending', 'confirmed', 'failed')`
+    )
+    .bind(params.chainId, params.since)
+    .all<{ eoa: string; operation: string; status: AuditStatus; total_amount: string | null; gas: string | null }>();
+
+  // Amounts are stored as text so they can hold any uint256; sum as bigints
+  const eoa = params.eoa.toLowerCase();
+  const usage = { eoaStake: 0n, eoaGas: 0n, globalGas: 0n };
+  for (const row of results) {
+    const gas = BigInt(row.gas ?? 0);
+    usage.globalGas += gas;
+    if (row.eoa !== eoa) continue;
+    usage.eoaGas += gas;
+    if (row.operation === 'stake' && row.status !== 'failed') {
+      usage.eoaStake += BigInt(row.total_amount ?? 0);
+    }
+  }
+  return usage;
+}
+
+// Helper to build the WHERE clause shared by the admin queries
+function whereClause(
+  filters: AuditFilters,
+  options: { beforeId?: number; extra?: string } = {}
+): { sql: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const add = (condition: string, ...values: unknown[]): void => {
+    conditions.push(condition);
+    params.push(...values);
+  };
+
+  if (filters.eoa) add('eoa = ?', filters.eoa.toLowerCase());
+  if (filters.chainId !== undefined) add('chain_id = ?', filters.chainId);
+  if (filters.status) add('status = ?', filters.status);
+  if (filters.errorCode) add('error_code = ?', filters.errorCode);
+  if (filters.txHash) add('(tx_hash = ? OR mined_hash = ?)', filters.txHash.toLowerCase(), filters.txHash.toLowerCase());
+  if (filters.from !== undefined) add('created_at >= ?', filters.from);
+  if (filters.to !== undefined) add('created_at < ?', filters.to);
+  if (options.beforeId !== undefined) add('id < ?', options.beforeId);
+  if (options.extra) add(options.extra);
+
+  return { sql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function toEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    chainId: row.chain_id,
+    operation: row.operation,
+    eoa: row.eoa,
+    choiceIds: JSON.parse(row.choice_ids) as string[],
+    amounts: JSON.parse(row.amounts) as string[],
+    totalAmount: row.total_amount,
+    status: row.status,
+    txHash: row.tx_hash,
+    minedHash: row.mined_hash,
+    relayerNonce: row.relayer_nonce,
+    batchIndex: row.batch_index,
+    gasUsed: row.gas_used,
+    gasCost: row.gas_cost,
+    gasEstimate: row.gas_estimate,
+    blockNumber: row.block_number,
+    broadcastAt: row.broadcast_at === null ? null : new Date(row.broadcast_at).toISOString(),
+    finalizedAt: row.finalized_at === null ? null : new Date(row.finalized_at).toISOString(),
+    errorCode: row.error_code,
+    errorMessage: row.error_message,
+    policyRule: row.policy_rule,
+  };
+}
+
+/**
+ * Query the audit log newest first. Pages are keyed on row ID: pass the
+ * returned `nextCursor` as `cursor` to get the following page.
+ */
+export async function queryAuditLog(
+  db: D1Database,
+  filters: AuditFilters,
+  page: { limit: number; cursor?: number }
+): Promise<{ entries: AuditEntry[]; nextCursor: number | null }> {
+  const { sql, params } = whereClause(filters, { beforeId: page.cursor });
+  const { results } = await db
+    .prepare(`SELECT * FROM relay_audit ${sql} ORDER BY id DESC LIMIT ?`)
+    .bind(...params, page.limit + 1)
+    .all<AuditRow>();
+
+  const hasMore = results.length > page.limit;
+  const entries = results.slice(0, page.limit).map(toEntry);
+  return {
+    entries,
+    nextCursor: hasMore ? entries[entries.length - 1].id : null,
+  };
+}
+
+// Totals over the filtered audit log: attempts per status, gas spent and distinct EOAs sponsored
+export async function summarizeAuditLog(
+  db: D1Database,
+  filters: AuditFilters
+): Promise<{ byStatus: Record<string, number>; gasUsed: string; gasCost: string; sponsoredEoas: number }> {
+  const all = whereClause(filters);
+  const mined = whereClause(filters, { extra: 'gas_used IS NOT NULL' });
+  const sponsored = whereClause(filters, { extra: "status IN ('pending', 'confirmed', 'failed')" });
+  const [statusRows, gasRows, eoaRow] = await db.batch<Record<string, unknown>>([
+    db.prepare(`SELECT status, COUNT(*) AS count FROM relay_audit ${all.sql} GROUP BY status`).bind(...all.params),
+    db.prepare(`SELECT gas_used, gas_cost FROM relay_audit ${mined.sql}`).bind(...mined.params),
+    db.prepare(`SELECT COUNT(DISTINCT eoa) AS count FROM relay_audit ${sponsored.sql}`).bind(...sponsored.params),
+  ]);
+
+  // Gas is stored as text so it can hold any uint256; sum as bigints
+  let gasUsed = 0n;
+  let gasCost = 0n;
+  for (const row of gasRows.results) {
+    gasUsed += BigInt(row.gas_used as string);
+    gasCost += BigInt((row.gas_cost as string | null) ?? 0);
+  }
+  return {
+    byStatus: Object.fromEntries(statusRows.results.map(row => [row.status as string, row.count as number])),
+    gasUsed: gasUsed.toString(),
+    gasCost: gasCost.toString(),
+    sponsoredEoas: (eoaRow.results[0]?.count as number | undefined) ?? 0,
+  };
+}
+
+// Per-chain counts and histograms over the whole audit log, for the metrics endpoint
+export interface AuditMetrics {
+  requests: { chainId: number | null; outcome: string; count: number }[];
+  mined: { chainId: number | null; status: string; count: number }[];
+  rejections: { chainId: number | null; rule: string; count: number }[];
+  timeToBroadcast: AuditHistogram[]; // Seconds from request to broadcast
+  timeToConfirm: AuditHistogram[]; // Seconds from broadcast to recorded outcome
+  gasUsed: AuditHistogram[]; // Per relay, a batch's gas split evenly
+}
+
+export interface AuditHistogram {
+  chainId: number | null;
+  count: number;
+  sum: number;
+  buckets: number[]; // Cumulative count at or below each bound
+}
+
+// Rejections that say something about the relayer rather than the request
+const NON_VALIDATION_CODES: RelayErrorCode[] = ['INTERNAL_ERROR', 'BROADCAST_FAILED', 'RELAYER_UNDERFUNDED', 'BATCHING_MISCONFIGURED'];
+
+// Helper to bucket one derived value per chain in SQL, so no rows leave D1
+function histogramStatement(db: D1Database, value: string, where: string, bounds: number[]): D1PreparedStatement {
+  const buckets = bounds.map((bound, i) => `SUM(value <= ${bound}) AS le_${i}`).join(', ');
+  return db.prepare(
+    `SELECT chain_id, COUNT(*) AS count, SUM(value) AS sum, ${buckets}
+     FROM (SELECT chain_id, ${value} AS value FROM relay_audit WHERE ${where})
+     GROUP BY chain_id`
+  );
+}
+
+// Helper to read the rows of histogramStatement
+function toHistograms(rows: Record<string, unknown>[], bounds: number[]): AuditHistogram[] {
+  return rows.map(row => ({
+    chainId: row.chain_id as number | null,
+    count: row.count as number,
+    sum: (row.sum as number | null) ?? 0,
+    buckets: bounds.map((_, i) => (row[`le_${i}`] as number | null) ?? 0),
+  }));
+}
+
+/**
+ * Aggregate the audit log into metrics. Requests are counted by the outcome
+ * decided when they were answered: the error code for rejections, otherwise
+ * `submitted`, `duplicate` or `dry_run`. Mined relays are counted separately,
+ * so neither count goes down as pending rows resolve.
+ */
+export async function aggregateAuditMetrics(
+  db: D1Database,
+  bounds: { broadcastSeconds: number[]; confirmSeconds: number[]; gasUsed: number[] }
+): Promise<AuditMetrics> {
+  const [requestRows, minedRows, rejectionRows, broadcastRows, confirmRows, gasRows] = await db.batch<Record<string, unknown>>([
+    db.prepare(
+      `SELECT chain_id,
+         COALESCE(error_code, CASE WHEN status IN ('pending', 'confirmed', 'failed') THEN 'submitted' ELSE status END) AS outcome,
+         COUNT(*) AS count
+       FROM relay_audit GROUP BY chain_id, outcome`
+    ),
+    db.prepare(
+      `SELECT chain_id, status, COUNT(*) AS count FROM relay_audit
+       WHERE status IN ('confirmed', 'failed') GROUP BY chain_id, status`
+    ),
+    db.prepare(
+      `SELECT chain_id, COALESCE(policy_rule, error_code) AS rule, COUNT(*) AS count FROM relay_audit
+       WHERE status = 'rejected' AND error_code NOT IN (${NON_VALIDATION_CODES.map(() => '?').join(', ')})
+       GROUP BY chain_id, rule`
+    ).bind(...NON_VALIDATION_CODES),
+    histogramStatement(db, '(broadcast_at - created_at) / 1000.0', 'broadcast_at IS NOT NULL', bounds.broadcastSeconds),
+    histogramStatement(
+      db,
+      '(finalized_at - broadcast_at) / 1000.0',
+      'finalized_at IS NOT NULL AND broadcast_at IS NOT NULL',
+      bounds.confirmSeconds
+    ),
+    histogramStatement(db, 'CAST(gas_used AS INTEGER)', 'gas_used IS NOT NULL', bounds.gasUsed),
+  ]);
+
+  return {
+    requests: requestRows.results.map(row => ({
+      chainId: row.chain_id as number | null,
+      outcome: row.outcome as string,
+      count: row.count as number,
+    })),
+    mined: minedRows.results.map(row => ({
+      chainId: row.chain_id as number | null,
+      status: row.status as string,
+      count: row.count as number,
+    })),
+    rejections: rejectionRows.results.map(row => ({
+      chainId: row.chain_id as number | null,
+      rule: row.rule as string,
+      count: row.count as number,
+    })),
+    timeToBroadcast: toHistograms(broadcastRows.results, bounds.broadcastSeconds),
+    timeToConfirm: toHistograms(confirmRows.results, bounds.confirmSeconds),
+    gasUsed: toHistograms(gasRows.results, bounds.gasUsed),
+  };
+}
+
+// Export the filtered audit log as CSV, newest first
+export async function exportAuditLogCsv(db: D1Database, filters: AuditFilters): Promise<string> {
+  const { entries } = await queryAuditLog(db, filters, { limit: MAX_AUDIT_EXPORT_ROWS });
+
+  const columns: (keyof AuditEntry)[] = [
+    'id',
+    'createdAt',
+    'chainId',
+    'operation',
+    'eoa',
+    'choiceIds',
+    'amounts',
+    'totalAmount',
+    'status',
+    'txHash',
+    'minedHash',
+    'relayerNonce',
+    'batchIndex',
+    'gasUsed',
+    'gasCost',
+    'gasEstimate',
+    'blockNumber',
+    'broadcastAt',
+    'finalizedAt',
+    'errorCode',
+    'errorMessage',
+    'policyRule',
+  ];
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    const text = Array.isArray(value) ? value.join(';') : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    columns.join(','),
+    ...entries.map(entry => columns.map(column => cell(entry[column])).join(',')),
+  ].join('\n') + '\n';
+}
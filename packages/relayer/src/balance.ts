@@ -0,0 +1,26 @@
+import { formatEther, type Address, type PublicClient } from 'viem';
+import type { ChainConfig } from './chains';
+import { RelayError } from './errors';
+
+/**
+ * Refuse to queue new transactions once the relayer's ETH balance on this chain
+ * drops below the configured minimum, instead of failing later at broadcast.
+ */
+export async function assertRelayerFunded(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  relayer: Address
+): Promise<void> {
+  const balance = await publicClient.getBalance({ address: relayer });
+  if (balance < chainConfig.minRelayerBalance) {
+    throw new RelayError('RELAYER_UNDERFUNDED', 'Relayer underfunded', {
+      status: 503,
+      details: {
+        chainId: chainConfig.chain.id,
+        relayer,
+        balance: formatEther(balance),
+        minBalance: formatEther(chainConfig.minRelayerBalance),
+      },
+    });
+  }
+}
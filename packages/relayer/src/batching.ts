@@ -0,0 +1,72 @@
+import { isAddressEqual, type Address, type PublicClient } from 'viem';
+import { RELAY_BATCH_EXECUTOR_ABI, STAKER_WALLET_ABI } from './abis';
+import { cached } from './cache';
+import type { BatchingConfig, ChainConfig } from './chains';
+import { RelayError } from './errors';
+
+// Who the StakerWallet and the executor accept calls from, as read on-chain
+export interface BatchingCallers {
+  executor: Address;
+  stakerWalletRelayer: Address | null; // Must be the executor; null when the read failed
+  executorRelayer: Address | null; // Must be the relayer account; null when the read failed
+  wired: boolean;
+}
+
+// Helper to read a contract's relayer() immutable, cached for good once it succeeds
+function readRelayer(
+  publicClient: PublicClient,
+  address: Address,
+  abi: typeof STAKER_WALLET_ABI | typeof RELAY_BATCH_EXECUTOR_ABI
+): Promise<Address | null> {
+  return cached(`relayer:${publicClient.chain?.id}:${address}`, Infinity, () =>
+    publicClient.readContract({ address, abi, functionName: 'relayer' })
+  ).catch(() => null);
+}
+
+/**
+ * Check a batching chain is deployed the way batching needs: the StakerWallet
+ * must have been deployed with the executor as its relayer, and the executor
+ * with this relayer account as its own. Otherwise every batched call reverts
+ * with OnlyRelayer.
+ */
+export async function checkBatchingCallers(
+  publicClient: PublicClient,
+  stakerWallet: Address,
+  batching: BatchingConfig,
+  relayer: Address
+): Promise<BatchingCallers> {
+  const [stakerWalletRelayer, executorRelayer] = await Promise.all([
+    readRelayer(publicClient, stakerWallet, STAKER_WALLET_ABI),
+    readRelayer(publicClient, batching.executor, RELAY_BATCH_EXECUTOR_ABI),
+  ]);
+  return {
+    executor: batching.executor,
+    stakerWalletRelayer,
+    executorRelayer,
+    wired: stakerWalletRelayer !== null && isAddressEqual(stakerWalletRelayer, batching.executor)
+      && executorRelayer !== null && isAddressEqual(executorRelayer, relayer),
+  };
+}
+
+// Refuse relays on a batching chain whose contracts weren't deployed for batching
+export async function assertBatchingWired(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  relayer: Address
+): Promise<void> {
+  if (!chainConfig.batching) {
+    return;
+  }
+  const callers = await checkBatchingCallers(publicClient, chainConfig.stakerWallet, chainConfig.batching, relayer);
+  if (!callers.wired) {
+    throw new RelayError('BATCHING_MISCONFIGURED', 'Batching misconfigured', {
+      status: 503,
+      details: {
+        chainId: chainConfig.chain.id,
+        stakerWallet: chainConfig.stakerWallet,
+        relayer,
+        ...callers,
+      },
+    });
+  }
+}
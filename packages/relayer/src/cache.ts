@@ -0,0 +1,21 @@
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Per-isolate cache of on-chain lookups; each isolate refreshes on its own
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Memoize an async lookup under `key` for `ttlMs` (Infinity for values that
+ * can't change, like contract immutables). Failed lookups aren't cached.
+ */
+export async function cached<T>(key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+  const entry = cache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.value as T;
+  }
+  const value = await load();
+  cache.set(key, { value, expiresAt: Date.now() + ttlMs });
+  return value;
+}
@@ -0,0 +1,232 @@
+import { getDeployment, LOG_BLOCK_RANGE } from '@tap-stake/sdk';
+import { isAddress, isAddressEqual, type Address, type Chain } from 'viem';
+import {
+  parseSponsorshipPolicy,
+  type SponsorshipPolicy,
+  type SponsorshipPolicyInput,
+} from './policy';
+import {
+  base,
+  baseSepolia,
+  ink,
+  inkSepolia,
+  mode,
+  modeTestnet,
+  optimism,
+  optimismSepolia,
+  unichain,
+  unichainSepolia,
+  zora,
+  zoraSepolia,
+} from 'viem/chains';
+
+// OP-stack chains the relayer knows how to talk to
+const KNOWN_CHAINS: Chain[] = [
+  optimism,
+  optimismSepolia,
+  base,
+  baseSepolia,
+  ink,
+  inkSepolia,
+  mode,
+  modeTestnet,
+  unichain,
+  unichainSepolia,
+  zora,
+  zoraSepolia,
+];
+
+const DEFAULT_CHOICE_CACHE_TTL_SECONDS = 300;
+const DEFAULT_MIN_RELAYER_BALANCE = BigInt("2000000000000000"); // 0.002 ETH
+const DEFAULT_FAUCET_AMOUNT = BigInt("100000000000000000000"); // 100 tokens
+const DEFAULT_FAUCET_COOLDOWN_SECONDS = 24 * 60 * 60;
+const DEFAULT_FAUCET_MAX_CLAIMS_PER_IP = 5;
+const DEFAULT_CONFIRMATIONS = 1;
+const DEFAULT_BATCH_WINDOW_MS = 2_000;
+const DEFAULT_BATCH_MAX_SIZE = 16;
+// A sent batch stores two idempotency records per relay in one storage put, which takes at most 128 keys
+const MAX_BATCH_SIZE = 60;
+
+// Shape of a single entry in the CHAIN_CONFIGS JSON var
+interface ChainConfigInput {
+  rpcUrl?: string;
+  stakerWallet?: string; // Defaults to the SDK's deployment manifest; required for chains it doesn't cover
+  approvedChoiceIds?: string[]; // Required unless choiceDiscovery is set
+  choiceDiscovery?: {
+    fromBlock?: string; // First block to scan for registrations; defaults to the session's deploy block in the manifest
+    logBlockRange?: number; // Blocks per eth_getLogs request
+    cacheTtlSeconds?: number;
+    allowlist?: string[];
+    denylist?: string[];
+  };
+  policy?: SponsorshipPolicyInput;
+  minRelayerBalance?: string;
+  confirmations?: number;
+  commitmentStore?: string;
+  faucet?: {
+    amount?: string;
+    cooldownSeconds?: number;
+    maxClaimsPerIp?: number;
+  };
+  batching?: {
+    executor: string; // RelayBatchExecutor the StakerWallet was deployed with as its relayer
+    windowMs?: number;
+    maxSize?: number;
+  };
+}
+
+// Discover approved choices from StakeChoicesERC6909 registrations instead of a static list
+export interface ChoiceDiscoveryConfig {
+  fromBlock?: bigint; // Unset: the StakeChoices session's deploy block from the SDK manifest, else 0
+  logBlockRange: bigint;
+  cacheTtlMs: number;
+  allowlist?: bigint[]; // When set, only these registered choices are approved
+  denylist: bigint[]; // Registered choices the operator has pulled
+}
+
+// Testnet faucet that mints the staking token (TestERC20) to cards
+export interface FaucetConfig {
+  amount: bigint; // Minted per claim, in wei
+  cooldownMs: number; // Per-address and per-IP window
+  maxClaimsPerIp: number; // Claims allowed from one IP per window
+}
+
+// Collect relays for a short window and send them as one RelayBatchExecutor transaction
+export interface BatchingConfig {
+  executor: Address;
+  windowMs: number; // How long the first relay in a batch waits for others
+  maxSize: number; // A full batch is sent without waiting out the window
+}
+
+export interface ChainConfig {
+  chain: Chain;
+  rpcUrl: string;
+  stakerWallet: Address;
+  approvedChoiceIds: bigint[]; // Static allowlist, unused when choiceDiscovery is set
+  choiceDiscovery?: ChoiceDiscoveryConfig;
+  policy: SponsorshipPolicy; // Sponsorship limits; the per-tx cap is also bounded on-chain
+  minRelayerBalance: bigint; // Below this ETH balance (wei) new relays are refused
+  confirmations: number; // Blocks, inclusion block included, before a relay counts as confirmed
+  commitmentStore?: Address; // When set, authorization relays must reveal a stored commitment
+  faucet?: FaucetConfig; // Testnet chains only
+  batching?: BatchingConfig; // When set, every relay on the chain goes through the executor
+}
+
+export type ChainRegistry = Map<number, ChainConfig>;
+
+// Helper to parse a JSON var that may be unset
+export function parseJsonVar<T>(name: string, value: string | undefined): T | undefined {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Invalid ${name} configuration: not valid JSON`);
+  }
+}
+
+/**
+ * Build the per-chain registry from CHAIN_CONFIGS, keyed by chain ID.
+ * RPC URLs can be overridden per chain with the RPC_URLS secret so that
+ * keyed endpoints don't have to live in wrangler.toml.
+ */
+export function loadChainRegistry(env: { CHAIN_CONFIGS: string; RPC_URLS?: string }): ChainRegistry {
+  const inputs = parseJsonVar<Record<string, ChainConfigInput>>('CHAIN_CONFIGS', env.CHAIN_CONFIGS);
+  if (!inputs) {
+    throw new Error('Missing CHAIN_CONFIGS configuration');
+  }
+  const rpcOverrides = parseJsonVar<Record<string, string>>('RPC_URLS', env.RPC_URLS) ?? {};
+
+  const registry: ChainRegistry = new Map();
+  for (const [key, input] of Object.entries(inputs)) {
+    const chainId = Number(key);
+    const chain = KNOWN_CHAINS.find(c => c.id === chainId);
+    if (!chain) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: unknown chain ID ${key}`);
+    }
+    // The manifest is what the frontend uses, so an override may only repeat it
+    const deployed = getDeployment(chainId)?.contracts.StakerWallet;
+    const stakerWallet = input.stakerWallet ?? deployed?.address;
+    if (!stakerWallet || !isAddress(stakerWallet)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: bad or missing stakerWallet for chain ${key}`);
+    }
+    if (deployed && !isAddressEqual(stakerWallet, deployed.address)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: stakerWallet for chain ${key} is not the deployed ${deployed.address}`);
+    }
+    if (input.commitmentStore !== undefined && !isAddress(input.commitmentStore)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: bad commitmentStore for chain ${key}`);
+    }
+
+    if (input.confirmations !== undefined && !(Number.isInteger(input.confirmations) && input.confirmations >= 1)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: confirmations must be a positive integer for chain ${key}`);
+    }
+    if (input.batching && !isAddress(input.batching.executor)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: bad batching.executor for chain ${key}`);
+    }
+    const batchSize = input.batching?.maxSize;
+    if (batchSize !== undefined && !(Number.isInteger(batchSize) && batchSize >= 1 && batchSize <= MAX_BATCH_SIZE)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: batching.maxSize must be 1-${MAX_BATCH_SIZE} for chain ${key}`);
+    }
+    const logBlockRange = input.choiceDiscovery?.logBlockRange;
+    if (logBlockRange !== undefined && !(Number.isInteger(logBlockRange) && logBlockRange >= 1)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: choiceDiscovery.logBlockRange must be a positive integer for chain ${key}`);
+    }
+    if (input.faucet && !chain.testnet) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: faucet is only allowed on testnets, not chain ${key}`);
+    }
+    if (!input.choiceDiscovery && !Array.isArray(input.approvedChoiceIds)) {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: chain ${key} needs approvedChoiceIds or choiceDiscovery`);
+    }
+
+    let approvedChoiceIds: bigint[];
+    let choiceDiscovery: ChoiceDiscoveryConfig | undefined;
+    let policy: SponsorshipPolicy;
+    let minRelayerBalance: bigint;
+    let faucet: FaucetConfig | undefined;
+    try {
+      approvedChoiceIds = (input.approvedChoiceIds ?? []).map(id => BigInt(id));
+      if (input.choiceDiscovery) {
+        const discovery = input.choiceDiscovery;
+        choiceDiscovery = {
+          fromBlock: discovery.fromBlock === undefined ? undefined : BigInt(discovery.fromBlock),
+          logBlockRange: discovery.logBlockRange === undefined ? LOG_BLOCK_RANGE : BigInt(discovery.logBlockRange),
+          cacheTtlMs: (discovery.cacheTtlSeconds ?? DEFAULT_CHOICE_CACHE_TTL_SECONDS) * 1000,
+          allowlist: discovery.allowlist?.map(id => BigInt(id)),
+          denylist: (discovery.denylist ?? []).map(id => BigInt(id)),
+        };
+      }
+      policy = parseSponsorshipPolicy(input.policy ?? {});
+      minRelayerBalance = input.minRelayerBalance ? BigInt(input.minRelayerBalance) : DEFAULT_MIN_RELAYER_BALANCE;
+      if (input.faucet) {
+        faucet = {
+          amount: input.faucet.amount ? BigInt(input.faucet.amount) : DEFAULT_FAUCET_AMOUNT,
+          cooldownMs: (input.faucet.cooldownSeconds ?? DEFAULT_FAUCET_COOLDOWN_SECONDS) * 1000,
+          maxClaimsPerIp: input.faucet.maxClaimsPerIp ?? DEFAULT_FAUCET_MAX_CLAIMS_PER_IP,
+        };
+      }
+    } catch {
+      throw new Error(`Invalid CHAIN_CONFIGS configuration: bad choice IDs, limits or policy for chain ${key}`);
+    }
+
+    registry.set(chainId, {
+      chain,
+      rpcUrl: rpcOverrides[key] ?? input.rpcUrl ?? chain.rpcUrls.default.http[0],
+      stakerWallet: stakerWallet.toLowerCase() as Address,
+      approvedChoiceIds,
+      choiceDiscovery,
+      policy,
+      minRelayerBalance,
+      confirmations: input.confirmations ?? DEFAULT_CONFIRMATIONS,
+      commitmentStore: input.commitmentStore?.toLowerCase() as Address | undefined,
+      faucet,
+      batching: input.batching && {
+        executor: input.batching.executor.toLowerCase() as Address,
+        windowMs: input.batching.windowMs ?? DEFAULT_BATCH_WINDOW_MS,
+        maxSize: input.batching.maxSize ?? DEFAULT_BATCH_MAX_SIZE,
+      },
+    });
+  }
+
+  return registry;
+}
@@ -0,0 +1,133 @@
+import { getDeployment, logPages } from '@tap-stake/sdk';
+import { isAddressEqual, type Address, type PublicClient } from 'viem';
+import { STAKE_CHOICES_ABI, STAKER_WALLET_ABI } from './abis';
+import { cached } from './cache';
+import type { ChainConfig, ChoiceDiscoveryConfig } from './chains';
+
+// Choice IDs found registered so far per StakeChoices, so a refresh only reads blocks after the cursor
+interface RegistrationScan {
+  choiceIds: bigint[];
+  nextBlock: bigint;
+}
+const registrationScans = new Map<string, RegistrationScan>();
+
+// StakeChoicesERC6909 behind a StakerWallet (an immutable, so cached for good)
+export function getStakeChoicesAddress(publicClient: PublicClient, stakerWallet: Address): Promise<Address> {
+  return cached(`stakeChoices:${publicClient.chain?.id}:${stakerWallet}`, Infinity, () =>
+    publicClient.readContract({
+      address: stakerWallet,
+      abi: STAKER_WALLET_ABI,
+      functionName: 'stakeChoicesAddress',
+    })
+  );
+}
+
+// Helper to apply the operator allowlist / denylist on top of registrations
+function isCurated(discovery: ChoiceDiscoveryConfig, choiceId: bigint): boolean {
+  if (discovery.denylist.includes(choiceId)) {
+    return false;
+  }
+  return !discovery.allowlist || discovery.allowlist.includes(choiceId);
+}
+
+// A choice is registered once registerChoice has given it a non-empty name
+async function isRegistered(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  discovery: ChoiceDiscoveryConfig,
+  choiceId: bigint
+): Promise<boolean> {
+  const stakeChoices = await getStakeChoicesAddress(publicClient, chainConfig.stakerWallet);
+  return cached(`registered:${chainConfig.chain.id}:${stakeChoices}:${choiceId}`, discovery.cacheTtlMs, async () => {
+    const name = await publicClient.readContract({
+      address: stakeChoices,
+      abi: STAKE_CHOICES_ABI,
+      functionName: 'name',
+      args: [choiceId],
+    });
+    return name.length > 0;
+  });
+}
+
+/**
+ * Read every registered choice ID from ERC6909NameUpdated events, in pages of
+ * logBlockRange blocks so public RPCs' eth_getLogs range limits don't apply.
+ * The cursor is kept per isolate and advanced after each page, so a refresh
+ * or a scan cut short by a failed page carries on where the last one stopped.
+ */
+async function scanRegisteredChoices(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  discovery: ChoiceDiscoveryConfig,
+  stakeChoices: Address
+): Promise<bigint[]> {
+  const key = `${chainConfig.chain.id}:${stakeChoices}`;
+  const session = getDeployment(chainConfig.chain.id)?.sessions.find(deployed => isAddressEqual(deployed.address, stakeChoices));
+  let scan = registrationScans.get(key) ?? {
+    choiceIds: [],
+    nextBlock: discovery.fromBlock ?? session?.blockNumber ?? 0n,
+  };
+
+  const latest = await publicClient.getBlockNumber();
+  for (const page of logPages(scan.nextBlock, latest, discovery.logBlockRange)) {
+    const logs = await publicClient.getContractEvents({
+      address: stakeChoices,
+      abi: STAKE_CHOICES_ABI,
+      eventName: 'ERC6909NameUpdated',
+      fromBlock: page.fromBlock,
+      toBlock: page.toBlock,
+      strict: true,
+    });
+
+    // Names are write-once (registerChoice reverts with MetadataAlreadySet), so
+    // every event is one choice's registration
+    const choiceIds = [...scan.choiceIds, ...logs.map(log => log.args.id)];
+    scan = { choiceIds, nextBlock: page.toBlock + 1n };
+    registrationScans.set(key, scan);
+  }
+  return scan.choiceIds;
+}
+
+/**
+ * List the chain's approved choice IDs. With choiceDiscovery these are the
+ * choices registered on StakeChoicesERC6909 (from ERC6909NameUpdated events),
+ * filtered by the operator allowlist / denylist.
+ */
+export async function listApprovedChoiceIds(publicClient: PublicClient, chainConfig: ChainConfig): Promise<bigint[]> {
+  const discovery = chainConfig.choiceDiscovery;
+  if (!discovery) {
+    return chainConfig.approvedChoiceIds;
+  }
+
+  const stakeChoices = await getStakeChoicesAddress(publicClient, chainConfig.stakerWallet);
+  const registered = await cached(`choices:${chainConfig.chain.id}:${stakeChoices}`, discovery.cacheTtlMs, () =>
+    scanRegisteredChoices(publicClient, chainConfig, discovery, stakeChoices)
+  );
+
+  return registered.filter(id => isCurated(discovery, id));
+}
+
+/**
+ * Return the requested choice IDs that aren't approved on this chain.
+ * With choiceDiscovery each ID is checked via name(id) rather than a full event
+ * scan, so relays don't depend on the RPC's log range limits.
+ */
+export async function findUnapprovedChoices(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  choiceIds: bigint[]
+): Promise<bigint[]> {
+  const discovery = chainConfig.choiceDiscovery;
+  if (!discovery) {
+    const approved = new Set(chainConfig.approvedChoiceIds.map(id => id.toString()));
+    return choiceIds.filter(id => !approved.has(id.toString()));
+  }
+
+  const unapproved: bigint[] = [];
+  for (const choiceId of new Set(choiceIds)) {
+    if (!isCurated(discovery, choiceId) || !(await isRegistered(publicClient, chainConfig, discovery, choiceId))) {
+      unapproved.push(choiceId);
+    }
+  }
+  return unapproved;
+}
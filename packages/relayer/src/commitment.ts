@@ -0,0 +1,29 @@
+import { hashCommitmentApproval } from '@tap-stake/sdk';
+import { recoverMessageAddress, type Address, type Hex, type PublicClient } from 'viem';
+import { COMMITMENT_STORE_ABI } from './abis';
+
+const EMPTY_COMMITMENT = `0x${'0'.repeat(64)}` as Hex;
+
+// Read the unexpired commitment stored for (eoa, nonce), or undefined if there is none
+export async function readCommitment(
+  publicClient: PublicClient,
+  commitmentStore: Address,
+  eoa: Address,
+  nonce: number
+): Promise<Hex | undefined> {
+  const stored = await publicClient.readContract({
+    address: commitmentStore,
+    abi: COMMITMENT_STORE_ABI,
+    functionName: 'getCommitment',
+    args: [eoa, BigInt(nonce)],
+  });
+  return stored === EMPTY_COMMITMENT ? undefined : stored;
+}
+
+// Recover the address that approved storing a commitment, as CommitmentStore.store will
+export async function recoverCommitmentSigner(
+  params: Parameters<typeof hashCommitmentApproval>[0],
+  signature: Hex
+): Promise<Address> {
+  return recoverMessageAddress({ message: { raw: hashCommitmentApproval(params) }, signature });
+}
@@ -0,0 +1,77 @@
+import { parseJsonVar } from './chains';
+
+// Response headers browsers may read cross-origin on top of the safelisted ones
+const EXPOSED_HEADERS = ['Retry-After'];
+// How long browsers may cache a preflight answer
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+const DEFAULT_METHODS = ['GET', 'POST', 'OPTIONS'];
+const DEFAULT_HEADERS = ['Content-Type', 'Idempotency-Key', 'Authorization'];
+
+// Shape of the CORS JSON var; anything left out falls back to the ENVIRONMENT default
+interface CorsConfigInput {
+  origins?: string[]; // Exact origins, `*`, or a wildcard subdomain like `https://*.ngrok-free.app`
+  methods?: string[];
+  headers?: string[];
+}
+
+export interface CorsConfig {
+  origins: string[];
+  methods: string[];
+  headers: string[];
+}
+
+/**
+ * Load the CORS config from the CORS var. Development defaults to any origin
+ * for local and ngrok demos; production allows no cross-origin callers until
+ * `origins` is set.
+ */
+export function loadCorsConfig(env: { CORS?: string; ENVIRONMENT?: string }): CorsConfig {
+  const input = parseJsonVar<CorsConfigInput>('CORS', env.CORS) ?? {};
+  const defaultOrigins = env.ENVIRONMENT === 'production' ? [] : ['*'];
+  return {
+    origins: input.origins ?? defaultOrigins,
+    methods: (input.methods ?? DEFAULT_METHODS).map(method => method.toUpperCase()),
+    headers: input.headers ?? DEFAULT_HEADERS,
+  };
+}
+
+// Helper to match an origin against one allowlist entry, with `*` standing for one or more subdomain labels
+function matchesOrigin(pattern: string, origin: string): boolean {
+  if (pattern === '*' || pattern === origin) {
+    return true;
+  }
+  if (!pattern.includes('*')) {
+    return false;
+  }
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('[a-z0-9-]+(?:\\.[a-z0-9-]+)*')}$`, 'i').test(origin);
+}
+
+// Whether a request's Origin header is on the allowlist
+export function isOriginAllowed(config: CorsConfig, origin: string): boolean {
+  return config.origins.some(pattern => matchesOrigin(pattern, origin));
+}
+
+/**
+ * CORS headers for a response to `request`. The allowed origin is reflected
+ * only when it is on the allowlist, so other origins get no CORS headers at all.
+ */
+export function corsHeadersFor(request: Request, config: CorsConfig): Record<string, string> {
+  const origin = request.headers.get('Origin');
+  if (!origin || !isOriginAllowed(config, origin)) {
+    return { Vary: 'Origin' };
+  }
+
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': config.origins.includes('*') ? '*' : origin,
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS.join(', '),
+    Vary: 'Origin',
+  };
+  if (request.method === 'OPTIONS') {
+    headers['Access-Control-Allow-Methods'] = config.methods.join(', ');
+    headers['Access-Control-Allow-Headers'] = config.headers.join(', ');
+    headers['Access-Control-Max-Age'] = PREFLIGHT_MAX_AGE_SECONDS.toString();
+  }
+  return headers;
+}
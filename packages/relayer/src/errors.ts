@@ -0,0 +1,27 @@
+import type { RelayErrorCode } from '@tap-stake/sdk';
+
+export type { RelayErrorCode };
+
+/**
+ * Error thrown by handlers to produce a structured failure response.
+ * The router turns it into `{ success: false, error, code, details }`.
+ */
+export class RelayError extends Error {
+  code: RelayErrorCode;
+  status: number;
+  details?: unknown;
+  headers?: Record<string, string>; // Extra response headers, e.g. Retry-After
+
+  constructor(
+    code: RelayErrorCode,
+    message: string,
+    options: { status?: number; details?: unknown; headers?: Record<string, string> } = {}
+  ) {
+    super(message);
+    this.name = 'RelayError';
+    this.code = code;
+    this.status = options.status ?? 400;
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+}
@@ -0,0 +1,55 @@
+import type { Address, Hex } from 'viem';
+import type { FaucetConfig } from './chains';
+
+export type FaucetReservation = { ok: true; claimId: number } | { ok: false; retryAfterMs: number };
+
+/**
+ * Reserve a faucet claim for (chain, address, IP) unless the address already
+ * claimed within the cooldown or the IP used up its claims. The check and the
+ * insert are a single statement so concurrent taps can't both get through.
+ * The IP is required: a NULL one would never match `ip = ?4` and skip the per-IP cap.
+ */
+export async function reserveFaucetClaim(
+  db: D1Database,
+  faucet: FaucetConfig,
+  claim: { chainId: number; address: Address; ip: string; now: number }
+): Promise<FaucetReservation> {
+  const address = claim.address.toLowerCase();
+  const windowStart = claim.now - faucet.cooldownMs;
+
+  const result = await db
+    .prepare(
+      `INSERT INTO faucet_claims (created_at, chain_id, address, ip, amount)
+       SELECT ?1, ?2, ?3, ?4, ?5
+       WHERE NOT EXISTS (
+         SELECT 1 FROM faucet_claims WHERE chain_id = ?2 AND address = ?3 AND created_at > ?6
+       )
+       AND (SELECT COUNT(*) FROM faucet_claims WHERE chain_id = ?2 AND ip = ?4 AND created_at > ?6) < ?7`
+    )
+    .bind(claim.now, claim.chainId, address, claim.ip, faucet.amount.toString(), windowStart, faucet.maxClaimsPerIp)
+    .run();
+
+  if (result.meta.changes > 0) {
+    return { ok: true, claimId: result.meta.last_row_id };
+  }
+
+  // Rejected - the window frees up when the oldest blocking claim ages out
+  const blocking = await db
+    .prepare(
+      `SELECT MIN(created_at) AS oldest FROM faucet_claims
+       WHERE chain_id = ?1 AND (address = ?2 OR ip = ?3) AND created_at > ?4`
+    )
+    .bind(claim.chainId, address, claim.ip, windowStart)
+    .first<{ oldest: number | null }>();
+  return { ok: false, retryAfterMs: Math.max((blocking?.oldest ?? claim.now) + faucet.cooldownMs - claim.now, 0) };
+}
+
+// Attach the mint transaction to a reserved claim
+export async function completeFaucetClaim(db: D1Database, claimId: number, txHash: Hex): Promise<void> {
+  await db.prepare('UPDATE faucet_claims SET tx_hash = ? WHERE id = ?').bind(txHash, claimId).run();
+}
+
+// Drop a reservation whose mint could not be queued, so the caller can retry
+export async function releaseFaucetClaim(db: D1Database, claimId: number): Promise<void> {
+  await db.prepare('DELETE FROM faucet_claims WHERE id = ?').bind(claimId).run();
+}
@@ -0,0 +1,61 @@
+import { exportAuditLogCsv, queryAuditLog, summarizeAuditLog } from '../audit';
+import { RelayError } from '../errors';
+import { collectMetrics } from '../metrics';
+import { jsonResponse, type RouteContext } from '../router';
+import { parseAuditQuery } from '../schema';
+import type { Env } from '../types';
+
+// Helper to SHA-256 a string so keys of any length compare in constant time
+async function digest(value: string): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+}
+
+// Helper to require `Authorization: Bearer <ADMIN_API_KEY>` on admin routes
+async function requireAdmin(request: Request, env: Env): Promise<void> {
+  const header = request.headers.get('Authorization') ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+
+  // Admin routes stay closed until a key is configured
+  if (!env.ADMIN_API_KEY || !token
+    || !crypto.subtle.timingSafeEqual(await digest(token), await digest(env.ADMIN_API_KEY))) {
+    throw new RelayError('UNAUTHORIZED', 'Unauthorized', {
+      status: 401,
+      details: 'Admin endpoints require Authorization: Bearer <ADMIN_API_KEY>',
+    });
+  }
+}
+
+// GET /v1/admin/relays - page through the audit log, newest first
+export async function handleAuditLog({ request, env, url }: RouteContext): Promise<Response> {
+  await requireAdmin(request, env);
+  const { filters, limit, cursor } = parseAuditQuery(url.searchParams);
+  return jsonResponse(await queryAuditLog(env.AUDIT_DB, filters, { limit, cursor }));
+}
+
+// GET /v1/admin/relays.csv - export the filtered audit log as CSV
+export async function handleAuditExport({ request, env, url }: RouteContext): Promise<Response> {
+  await requireAdmin(request, env);
+  const { filters } = parseAuditQuery(url.searchParams);
+  const csv = await exportAuditLogCsv(env.AUDIT_DB, filters);
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="relay-audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  });
+}
+
+// GET /v1/admin/relays/summary - attempts per status, gas spent and EOAs sponsored
+export async function handleAuditSummary({ request, env, url }: RouteContext): Promise<Response> {
+  await requireAdmin(request, env);
+  const { filters } = parseAuditQuery(url.searchParams);
+  return jsonResponse(await summarizeAuditLog(env.AUDIT_DB, filters));
+}
+
+// GET /v1/admin/metrics - relay counters, latency and gas histograms, and relayer balances for Prometheus
+export async function handleMetrics({ request, env }: RouteContext): Promise<Response> {
+  await requireAdmin(request, env);
+  return new Response(await collectMetrics(env), {
+    headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+  });
+}
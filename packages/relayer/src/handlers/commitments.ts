@@ -0,0 +1,110 @@
+import { COMMITMENT_MAX_TTL_SECONDS } from '@tap-stake/sdk';
+import { createPublicClient, encodeFunctionData, http } from 'viem';
+import { COMMITMENT_STORE_ABI } from '../abis';
+import { assertRelayerFunded } from '../balance';
+import { loadChainRegistry } from '../chains';
+import { readCommitment, recoverCommitmentSigner } from '../commitment';
+import { RelayError } from '../errors';
+import { enforceIpRateLimit } from '../rateLimit';
+import { submitToQueue } from '../relayQueue';
+import { jsonResponse, readJson, type RouteContext } from '../router';
+import { parseCommitmentRequest } from '../schema';
+import { relayerAddress } from '../signer';
+import type { RelayResponse } from '../types';
+
+// POST /v1/commitments - store a commitment the EOA signed for its current nonce, paying the gas for it
+export async function handleStoreCommitment({ request, env }: RouteContext): Promise<Response> {
+  await enforceIpRateLimit(env, request);
+  const body = parseCommitmentRequest(await readJson(request));
+
+  const registry = loadChainRegistry(env);
+  const chainConfig = registry.get(body.chainId);
+  if (!chainConfig) {
+    throw new RelayError('UNSUPPORTED_CHAIN', 'Unsupported chain', {
+      details: {
+        chainId: body.chainId,
+        supportedChainIds: [...registry.keys()],
+      },
+    });
+  }
+  if (!chainConfig.commitmentStore) {
+    throw new RelayError('COMMITMENTS_DISABLED', 'Commitments not enabled', {
+      details: `Chain ${body.chainId} has no CommitmentStore configured`,
+    });
+  }
+
+  // The store only accepts commitments the EOA signed, so a bad one would just burn gas
+  const now = Math.floor(Date.now() / 1000);
+  if (body.expiresAt <= now || body.expiresAt > now + COMMITMENT_MAX_TTL_SECONDS) {
+    throw new RelayError('COMMITMENT_EXPIRED', 'Invalid commitment expiry', {
+      details: `Commitment must expire within the next ${COMMITMENT_MAX_TTL_SECONDS} seconds`,
+    });
+  }
+  const signer = await recoverCommitmentSigner(
+    {
+      commitmentStore: chainConfig.commitmentStore,
+      chainId: body.chainId,
+      eoa: body.eoa,
+      nonce: body.nonce,
+      commitment: body.commitment,
+      expiresAt: body.expiresAt,
+    },
+    body.signature
+  ).catch(() => null);
+  if (signer?.toLowerCase() !== body.eoa.toLowerCase()) {
+    throw new RelayError('INVALID_COMMITMENT', 'Invalid commitment signature', {
+      details: `Commitment was not signed by ${body.eoa}`,
+    });
+  }
+
+  const publicClient = createPublicClient({
+    chain: chainConfig.chain,
+    transport: http(chainConfig.rpcUrl),
+  });
+
+  // Storing the commitment costs relayer gas too
+  const relayer = relayerAddress(env);
+  await assertRelayerFunded(publicClient, chainConfig, relayer);
+
+  // Only commit for the nonce the EOA's next authorization will actually use
+  const currentNonce = await publicClient.getTransactionCount({ address: body.eoa });
+  if (body.nonce !== currentNonce) {
+    throw new RelayError('STALE_NONCE', 'Nonce is not current', {
+      details: `EOA ${body.eoa} is at nonce ${currentNonce}, got ${body.nonce}`,
+    });
+  }
+
+  const existing = await readCommitment(publicClient, chainConfig.commitmentStore, body.eoa, body.nonce);
+  if (existing) {
+    throw new RelayError('COMMITMENT_EXISTS', 'Commitment already stored', {
+      status: 409,
+      details: {
+        nonce: body.nonce,
+        stored: existing,
+      },
+    });
+  }
+
+  const { txHash } = await submitToQueue(env, {
+    chainId: chainConfig.chain.id,
+    to: chainConfig.commitmentStore,
+    data: encodeFunctionData({
+      abi: COMMITMENT_STORE_ABI,
+      functionName: 'store',
+      args: [body.eoa, BigInt(body.nonce), body.commitment, BigInt(body.expiresAt), body.signature],
+    }),
+    authorizationList: [],
+  });
+
+  return jsonResponse({
+    success: true,
+    txHash,
+    details: {
+      commitmentStore: chainConfig.commitmentStore,
+      eoa: body.eoa,
+      nonce: body.nonce,
+      commitment: body.commitment,
+      expiresAt: body.expiresAt,
+    },
+  } satisfies RelayResponse);
+}
@@ -0,0 +1,47 @@
+import type { RelayerConfig } from '@tap-stake/sdk';
+import { createPublicClient, http } from 'viem';
+import { loadChainRegistry } from '../chains';
+import { listApprovedChoiceIds } from '../choices';
+import { effectiveMaxStakePerTx } from '../policy';
+import { jsonResponse, type RouteContext } from '../router';
+
+// GET /v1/config - public per-chain config clients need to build relay requests
+export async function handleConfig({ env }: RouteContext): Promise<Response> {
+  const registry = loadChainRegistry(env);
+  const chains = await Promise.all(
+    [...registry.values()].map(async config => {
+      const publicClient = createPublicClient({
+        chain: config.chain,
+        transport: http(config.rpcUrl),
+      });
+      const [approvedChoiceIds, maxStakePerTx] = await Promise.all([
+        listApprovedChoiceIds(publicClient, config),
+        effectiveMaxStakePerTx(publicClient, config),
+      ]);
+      const { policy } = config;
+
+      return {
+        chainId: config.chain.id,
+        name: config.chain.name,
+        stakerWallet: config.stakerWallet,
+        choiceSource: config.choiceDiscovery ? 'onchain' as const : 'static' as const,
+        approvedChoiceIds: approvedChoiceIds.map(id => id.toString()),
+        maxStakePerTx: maxStakePerTx.toString(),
+        maxStakePerChoice: policy.maxStakePerChoice?.toString() ?? null,
+        campaigns: policy.campaigns.map(campaign => ({
+          name: campaign.name,
+          start: new Date(campaign.start).toISOString(),
+          end: new Date(campaign.end).toISOString(),
+        })),
+        commitmentStore: config.commitmentStore ?? null,
+        faucet: config.faucet
+          ? { amount: config.faucet.amount.toString(), cooldownSeconds: config.faucet.cooldownMs / 1000 }
+          : null,
+        batching: config.batching
+          ? { executor: config.batching.executor, windowMs: config.batching.windowMs, maxSize: config.batching.maxSize }
+          : null,
+      };
+    })
+  );
+  return jsonResponse({ chains } satisfies RelayerConfig);
+}
@@ -0,0 +1,39 @@
+import { loadChainRegistry } from '../chains';
+import { RelayError } from '../errors';
+import { subscribeToRelayEvents } from '../relayQueue';
+import type { RouteContext } from '../router';
+import { parseRelayEventsQuery } from '../schema';
+
+// GET /v1/relay/:txHash/events - SSE stream of a relayer transaction's lifecycle events
+export async function handleRelayEvents({ request, env, url, params }: RouteContext): Promise<Response> {
+  const query = parseRelayEventsQuery(params.txHash, url.searchParams, request.headers.get('Last-Event-ID'));
+
+  const registry = loadChainRegistry(env);
+  const chainId = query.chainId ?? (registry.size === 1 ? [...registry.keys()][0] : undefined);
+  if (chainId === undefined) {
+    throw new RelayError('INVALID_REQUEST', 'Invalid chainId', {
+      details: { field: 'chainId', message: 'is required when more than one chain is configured' },
+    });
+  }
+  if (!registry.has(chainId)) {
+    throw new RelayError('UNSUPPORTED_CHAIN', 'Unsupported chain', {
+      details: {
+        chainId,
+        supportedChainIds: [...registry.keys()],
+      },
+    });
+  }
+
+  const stream = await subscribeToRelayEvents(env, chainId, query.txHash, {
+    batchIndex: query.batchIndex,
+    lastEventId: query.lastEventId,
+  });
+
+  // Responses from a Durable Object have immutable headers; rewrap so the router can add CORS
+  return new Response(stream.body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
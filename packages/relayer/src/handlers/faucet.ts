@@ -0,0 +1,100 @@
+import { createPublicClient, encodeFunctionData, http, type Hex } from 'viem';
+import { STAKING_TOKEN_ABI } from '../abis';
+import { assertRelayerFunded } from '../balance';
+import { loadChainRegistry } from '../chains';
+import { RelayError } from '../errors';
+import { completeFaucetClaim, releaseFaucetClaim, reserveFaucetClaim } from '../faucet';
+import { enforceIpRateLimit } from '../rateLimit';
+import { submitToQueue } from '../relayQueue';
+import { jsonResponse, readJson, type RouteContext } from '../router';
+import { parseFaucetRequest } from '../schema';
+import { relayerAddress } from '../signer';
+import { getStakingTokenAddress } from '../token';
+import type { RelayResponse } from '../types';
+
+// POST /v1/faucet - mint test staking tokens to a card on testnets, rate-limited per address and IP
+export async function handleFaucet({ request, env }: RouteContext): Promise<Response> {
+  await enforceIpRateLimit(env, request);
+  const body = parseFaucetRequest(await readJson(request));
+
+  // The per-IP claim cap needs an IP; Cloudflare always sets this header on real traffic
+  const ip = request.headers.get('CF-Connecting-IP');
+  if (!ip) {
+    throw new RelayError('INVALID_REQUEST', 'Missing client IP', {
+      details: { field: 'CF-Connecting-IP', message: 'faucet claims need the client IP' },
+    });
+  }
+
+  const registry = loadChainRegistry(env);
+  const chainConfig = registry.get(body.chainId);
+  if (!chainConfig) {
+    throw new RelayError('UNSUPPORTED_CHAIN', 'Unsupported chain', {
+      details: {
+        chainId: body.chainId,
+        supportedChainIds: [...registry.keys()],
+      },
+    });
+  }
+  const { faucet } = chainConfig;
+  if (!faucet) {
+    throw new RelayError('FAUCET_DISABLED', 'Faucet not enabled', {
+      details: `Chain ${body.chainId} has no faucet configured`,
+    });
+  }
+
+  const publicClient = createPublicClient({
+    chain: chainConfig.chain,
+    transport: http(chainConfig.rpcUrl),
+  });
+
+  // Minting costs relayer gas like any relay
+  const relayer = relayerAddress(env);
+  await assertRelayerFunded(publicClient, chainConfig, relayer);
+
+  const reservation = await reserveFaucetClaim(env.AUDIT_DB, faucet, {
+    chainId: body.chainId,
+    address: body.address,
+    ip,
+    now: Date.now(),
+  });
+  if (!reservation.ok) {
+    const retryAfterSeconds = Math.ceil(reservation.retryAfterMs / 1000);
+    throw new RelayError('FAUCET_COOLDOWN', 'Faucet cooldown', {
+      status: 429,
+      headers: { 'Retry-After': retryAfterSeconds.toString() },
+      details: {
+        retryAfterSeconds,
+        message: 'This address or IP already claimed test tokens recently',
+      },
+    });
+  }
+
+  const token = await getStakingTokenAddress(publicClient, chainConfig.stakerWallet);
+  let txHash: Hex;
+  try {
+    ({ txHash } = await submitToQueue(env, {
+      chainId: chainConfig.chain.id,
+      to: token,
+      data: encodeFunctionData({
+        abi: STAKING_TOKEN_ABI,
+        functionName: 'mint',
+        args: [body.address, faucet.amount],
+      }),
+      authorizationList: [],
+    }));
+  } catch (error) {
+    await releaseFaucetClaim(env.AUDIT_DB, reservation.claimId);
+    throw error;
+  }
+  await completeFaucetClaim(env.AUDIT_DB, reservation.claimId, txHash);
+
+  return jsonResponse({
+    success: true,
+    txHash,
+    details: {
+      token,
+      address: body.address,
+      amount: faucet.amount.toString(),
+    },
+  } satisfies RelayResponse);
+}
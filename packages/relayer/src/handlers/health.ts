@@ -0,0 +1,102 @@
+import { createPublicClient, formatEther, http, type Address } from 'viem';
+import { checkBatchingCallers, type BatchingCallers } from '../batching';
+import { loadChainRegistry, type ChainConfig } from '../chains';
+import { getStakeChoicesAddress } from '../choices';
+import { jsonResponse, type RouteContext } from '../router';
+import { checkSigner, relayerAddress } from '../signer';
+
+// GET /v1/health - liveness check, also confirms CHAIN_CONFIGS parses
+export async function handleHealth({ env }: RouteContext): Promise<Response> {
+  const registry = loadChainRegistry(env);
+  return jsonResponse({
+    status: 'ok',
+    environment: env.ENVIRONMENT ?? 'development',
+    chainIds: [...registry.keys()],
+  });
+}
+
+interface ChainReadiness {
+  chainId: number;
+  name: string;
+  ready: boolean;
+  rpc: { reachable: boolean; blockNumber?: string; error?: string };
+  balance?: { wei: string; eth: string; minEth: string; funded: boolean };
+  nonce?: { latest: number; pending: number; inFlight: number };
+  contracts: { stakerWallet: Address; commitmentStore: Address | null; stakeChoices?: Address | null };
+  batching?: BatchingCallers; // Only on chains with batching; not ready unless wired
+}
+
+// Helper to check one chain's RPC, relayer balance and nonces, and its batching contracts
+async function checkChain(chainConfig: ChainConfig, relayer: Address): Promise<ChainReadiness> {
+  const publicClient = createPublicClient({
+    chain: chainConfig.chain,
+    transport: http(chainConfig.rpcUrl),
+  });
+  const contracts = {
+    stakerWallet: chainConfig.stakerWallet,
+    commitmentStore: chainConfig.commitmentStore ?? null,
+  };
+
+  try {
+    const [blockNumber, balance, latestNonce, pendingNonce, stakeChoices, batching] = await Promise.all([
+      publicClient.getBlockNumber(),
+      publicClient.getBalance({ address: relayer }),
+      publicClient.getTransactionCount({ address: relayer, blockTag: 'latest' }),
+      publicClient.getTransactionCount({ address: relayer, blockTag: 'pending' }),
+      getStakeChoicesAddress(publicClient, chainConfig.stakerWallet).catch(() => null),
+      chainConfig.batching && checkBatchingCallers(publicClient, chainConfig.stakerWallet, chainConfig.batching, relayer),
+    ]);
+    const funded = balance >= chainConfig.minRelayerBalance;
+
+    return {
+      chainId: chainConfig.chain.id,
+      name: chainConfig.chain.name,
+      ready: funded && (batching?.wired ?? true),
+      rpc: { reachable: true, blockNumber: blockNumber.toString() },
+      balance: {
+        wei: balance.toString(),
+        eth: formatEther(balance),
+        minEth: formatEther(chainConfig.minRelayerBalance),
+        funded,
+      },
+      nonce: {
+        latest: latestNonce,
+        pending: pendingNonce,
+        inFlight: pendingNonce - latestNonce,
+      },
+      contracts: { ...contracts, stakeChoices },
+      batching,
+    };
+  } catch (error) {
+    return {
+      chainId: chainConfig.chain.id,
+      name: chainConfig.chain.name,
+      ready: false,
+      rpc: {
+        reachable: false,
+        error: (error as { shortMessage?: string }).shortMessage ?? (error as Error).message,
+      },
+      contracts,
+    };
+  }
+}
+
+// GET /v1/health/ready - signer reachable, and per chain RPC reachable, relayer funded and batching wired; 503 otherwise
+export async function handleReadiness({ env }: RouteContext): Promise<Response> {
+  const registry = loadChainRegistry(env);
+  const relayer = relayerAddress(env);
+
+  const [signer, chains] = await Promise.all([
+    checkSigner(env),
+    Promise.all([...registry.values()].map(config => checkChain(config, relayer))),
+  ]);
+  const ready = signer.reachable && chains.every(chain => chain.ready);
+
+  return jsonResponse({
+    status: ready ? 'ready' : 'degraded',
+    environment: env.ENVIRONMENT ?? 'development',
+    relayer,
+    signer,
+    chains,
+  }, ready ? 200 : 503);
+}
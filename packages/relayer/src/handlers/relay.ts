@@ -0,0 +1,428 @@
+import { hashRelayCommitment, hashRelayIntent, INTENT_MAX_TTL_SECONDS } from '@tap-stake/sdk';
+import {
+  createPublicClient,
+  encodeFunctionData,
+  http,
+  type Address,
+  type Hex,
+} from 'viem';
+import { recoverAuthorizationAddress } from 'viem/experimental';
+import { STAKE_CHOICES_ABI, STAKER_WALLET_ABI } from '../abis';
+import { recordRelayAttempt, type RelayAttempt } from '../audit';
+import { assertRelayerFunded } from '../balance';
+import { assertBatchingWired } from '../batching';
+import { loadChainRegistry } from '../chains';
+import { findUnapprovedChoices, getStakeChoicesAddress } from '../choices';
+import { readCommitment } from '../commitment';
+import { RelayError } from '../errors';
+import { assertAuthorizationCurrent, isDelegatedTo, recoverIntentSigner } from '../intent';
+import { relayIdempotency } from '../idempotency';
+import { enforceBudgetPolicy, enforceRequestPolicy, type PolicyRule } from '../policy';
+import { enforceEoaRateLimit, enforceIpRateLimit } from '../rateLimit';
+import {
+  findIdempotentSubmission,
+  submitToBatch,
+  submitToQueue,
+  type QueuedAuthorization,
+} from '../relayQueue';
+import { jsonResponse, readJson, type RouteContext } from '../router';
+import { parseIdempotencyKey, parseRelayRequest } from '../schema';
+import { loadRelayerAccount } from '../signer';
+import { simulateRelay } from '../simulate';
+import { assertTokenBalance } from '../token';
+import type { RelayResponse } from '../types';
+
+// POST /v1/relay - validate, simulate and queue a stake or unstake for an EOA,
+// recording every attempt in the audit log
+export async function handleRelay(context: RouteContext): Promise<Response> {
+  const attempt: RelayAttempt = { createdAt: Date.now() };
+  try {
+    return await relay(context, attempt);
+  } catch (error) {
+    attempt.status = 'rejected';
+    attempt.errorCode = error instanceof RelayError ? error.code : 'INTERNAL_ERROR';
+    attempt.errorMessage = (error as Error).message;
+    if (error instanceof RelayError && error.code === 'POLICY_VIOLATION') {
+      attempt.policyRule = (error.details as { rule: PolicyRule }).rule;
+    }
+    throw error;
+  } finally {
+    context.ctx.waitUntil(
+      recordRelayAttempt(context.env.AUDIT_DB, attempt).catch(error => {
+        if (context.env.ENVIRONMENT !== 'production') {
+          // eslint-disable-next-line no-console
+          console.error('Failed to record relay attempt:', error);
+        }
+      })
+    );
+  }
+}
+
+// Helper that does the actual relay, filling in the audit record as it goes
+async function relay({ request, env }: RouteContext, attempt: RelayAttempt): Promise<Response> {
+  await enforceIpRateLimit(env, request);
+  const clientKey = parseIdempotencyKey(request.headers.get('Idempotency-Key'));
+  const body = parseRelayRequest(await readJson(request));
+  const { operation, choiceIds, amounts } = body;
+  attempt.chainId = body.chainId;
+  attempt.operation = operation;
+  attempt.choiceIds = choiceIds;
+  attempt.amounts = amounts;
+
+  // Look up the chain config selected by the authorization's (or intent's) chain ID
+  const registry = loadChainRegistry(env);
+  const chainConfig = registry.get(body.chainId);
+  if (!chainConfig) {
+    throw new RelayError('UNSUPPORTED_CHAIN', 'Unsupported chain', {
+      details: {
+        chainId: body.chainId,
+        supportedChainIds: [...registry.keys()],
+      },
+    });
+  }
+  const { chain, rpcUrl } = chainConfig;
+  const chainId = chain.id;
+
+  // Validate max choices doesn't exceed a static approved list
+  if (!chainConfig.choiceDiscovery && choiceIds.length > chainConfig.approvedChoiceIds.length) {
+    throw new RelayError('TOO_MANY_CHOICES', 'Too many choices', {
+      details: `Maximum ${chainConfig.approvedChoiceIds.length} choices allowed, got ${choiceIds.length}`,
+    });
+  }
+
+  // Validate authorization contract address matches this chain's StakerWallet
+  const allowedAddress = chainConfig.stakerWallet;
+  if (body.authorization && body.authorization.address.toLowerCase() !== allowedAddress) {
+    throw new RelayError('CONTRACT_NOT_ALLOWED', 'Contract address not allowed', {
+      status: 403,
+      details: `Authorization contract address ${body.authorization.address} does not match allowed address ${allowedAddress} for chain ${chainId}`,
+    });
+  }
+
+  const totalAmount = amounts.reduce((sum, amt) => sum + amt, 0n);
+
+  // Relayer account that pays for gas (submission itself goes through the RelayQueue)
+  const account = loadRelayerAccount(env);
+
+  const publicClient = createPublicClient({
+    chain,
+    transport: http(rpcUrl),
+  });
+
+  // Apply the chain's sponsorship policy: campaign windows and per-tx / per-choice caps
+  await enforceRequestPolicy(publicClient, chainConfig, {
+    operation,
+    choiceIds,
+    amounts,
+    now: attempt.createdAt,
+  });
+
+  // Validate choice IDs are approved, either statically or by on-chain registration
+  const [unapprovedChoiceId] = await findUnapprovedChoices(publicClient, chainConfig, choiceIds);
+  if (unapprovedChoiceId !== undefined) {
+    throw new RelayError('CHOICE_NOT_APPROVED', 'Invalid choice ID', {
+      details: `Choice ID ${unapprovedChoiceId} is not in the approved list of choices`,
+    });
+  }
+
+  // Resolve the EOA we act for, either from a fresh EIP-7702 authorization or,
+  // for EOAs already delegated to the StakerWallet, from a signed intent
+  let signerAddress: Address;
+  let signed: { authorization: QueuedAuthorization } | { intentHash: Hex };
+  const authorizationList: QueuedAuthorization[] = [];
+  if (body.authorization) {
+    const authorization = body.authorization;
+
+    // Verify the authorization was signed by the expected address
+    // We recover the address from the authorization to ensure it matches what we expect
+    try {
+      signerAddress = await recoverAuthorizationAddress({
+        authorization,
+      });
+      if (env.ENVIRONMENT !== 'production') {
+        // eslint-disable-next-line no-console
+        console.log('Authorization verification:', {
+          recoveredAddress: signerAddress,
+          contractAddress: authorization.address,
+        });
+      }
+    } catch (verifyError) {
+      if (env.ENVIRONMENT !== 'production') {
+        // eslint-disable-next-line no-console
+        console.error('Failed to verify authorization:', verifyError);
+      }
+      throw new RelayError('INVALID_AUTHORIZATION', 'Invalid authorization signature', {
+        details: 'Could not recover signer from authorization',
+      });
+    }
+    authorizationList.push(authorization);
+    signed = { authorization };
+
+    // With a CommitmentStore configured, the revealed operation must match what was
+    // committed for (EOA, authorization nonce) before the card signed
+    if (chainConfig.commitmentStore) {
+      if (!body.reveal) {
+        throw new RelayError('COMMITMENT_REQUIRED', 'Commitment reveal required', {
+          details: `Chain ${chainId} requires reveal.salt for the commitment stored at nonce ${authorization.nonce}`,
+        });
+      }
+
+      const stored = await readCommitment(publicClient, chainConfig.commitmentStore, signerAddress, authorization.nonce);
+      if (!stored) {
+        throw new RelayError('COMMITMENT_NOT_FOUND', 'Commitment not found', {
+          status: 409,
+          details: `No commitment stored for ${signerAddress} at nonce ${authorization.nonce}`,
+        });
+      }
+
+      const revealed = hashRelayCommitment({
+        eoa: signerAddress,
+        chainId,
+        stakerWallet: allowedAddress,
+        operation,
+        choiceIds,
+        amounts,
+        salt: body.reveal.salt,
+      });
+      if (revealed !== stored) {
+        throw new RelayError('COMMITMENT_MISMATCH', 'Commitment mismatch', {
+          status: 409,
+          details: {
+            nonce: authorization.nonce,
+            stored,
+            revealed,
+          },
+        });
+      }
+    }
+  } else {
+    const { intent } = body;
+
+    // Validate the intent deadline is current and not too far out
+    const now = Math.floor(Date.now() / 1000);
+    if (intent.deadline < now || intent.deadline > now + INTENT_MAX_TTL_SECONDS) {
+      throw new RelayError('INTENT_EXPIRED', 'Invalid intent deadline', {
+        details: `Intent deadline must be within the next ${INTENT_MAX_TTL_SECONDS} seconds`,
+      });
+    }
+
+    // Verify the intent was signed by the EOA it claims to act for
+    const intentHash = hashRelayIntent({
+      eoa: intent.eoa,
+      chainId,
+      stakerWallet: allowedAddress,
+      operation,
+      choiceIds,
+      amounts,
+      deadline: intent.deadline,
+    });
+    const intentSigner = await recoverIntentSigner(intentHash, intent.signature).catch(() => null);
+    if (intentSigner?.toLowerCase() !== intent.eoa.toLowerCase()) {
+      throw new RelayError('INVALID_INTENT', 'Invalid intent signature', {
+        details: `Intent was not signed by ${intent.eoa}`,
+      });
+    }
+    signerAddress = intent.eoa;
+    signed = { intentHash };
+
+    // Without an authorization the EOA must already be delegated to this chain's StakerWallet
+    if (!(await isDelegatedTo(publicClient, signerAddress, allowedAddress))) {
+      throw new RelayError('EOA_NOT_DELEGATED', 'EOA not delegated', {
+        details: `EOA ${signerAddress} is not delegated to ${allowedAddress}, an authorization is required`,
+      });
+    }
+  }
+
+  attempt.eoa = signerAddress;
+
+  // A retried or double-tapped request gets the transaction already sent for it,
+  // before simulation, which would fail once that transaction has landed
+  const idempotency = relayIdempotency({
+    clientKey,
+    eoa: signerAddress,
+    chainId,
+    operation,
+    choiceIds,
+    amounts,
+    signed,
+  });
+  if (!body.dryRun) {
+    const previous = await findIdempotentSubmission(env, chainId, idempotency);
+    if (previous) {
+      attempt.status = 'duplicate';
+      attempt.txHash = previous.txHash;
+      attempt.relayerNonce = previous.nonce;
+      attempt.batchIndex = previous.batchIndex;
+      return jsonResponse({
+        success: true,
+        txHash: previous.txHash,
+        duplicate: true,
+        status: previous.status,
+        minedHash: previous.minedHash,
+        batchIndex: previous.batchIndex,
+        details: {
+          chainId,
+          operation,
+          eoa: signerAddress,
+          relayerNonce: previous.nonce,
+        },
+      } satisfies RelayResponse);
+    }
+  }
+
+  // A mined authorization is public, so it only proves who we act for while its nonce is unused
+  if (body.authorization) {
+    await assertAuthorizationCurrent(publicClient, signerAddress, body.authorization, allowedAddress);
+  }
+
+  // Retries of a request already sent are answered above without counting against the EOA
+  await enforceEoaRateLimit(env, signerAddress);
+
+  // A StakerWallet not deployed with the executor as its relayer would revert every batched call
+  await assertBatchingWired(publicClient, chainConfig, account.address);
+
+  if (!body.dryRun) {
+    // Don't take on new relays the relayer can't pay gas for
+    await assertRelayerFunded(publicClient, chainConfig, account.address);
+  }
+
+  // For stakes, make sure the EOA holds enough of the staking token before simulating
+  if (operation === 'stake') {
+    await assertTokenBalance(publicClient, allowedAddress, signerAddress, totalAmount);
+  }
+
+  // For unstakes, make sure the EOA actually holds the receipt tokens it wants to burn
+  if (operation === 'unstake') {
+    const stakeChoicesAddress = await getStakeChoicesAddress(publicClient, allowedAddress);
+
+    // Sum requested amounts per choice in case a choice ID is repeated
+    const requestedByChoice = new Map<bigint, bigint>();
+    for (let i = 0; i < choiceIds.length; i++) {
+      requestedByChoice.set(choiceIds[i], (requestedByChoice.get(choiceIds[i]) ?? 0n) + amounts[i]);
+    }
+
+    for (const [choiceId, requested] of requestedByChoice) {
+      const balance = await publicClient.readContract({
+        address: stakeChoicesAddress,
+        abi: STAKE_CHOICES_ABI,
+        functionName: 'balanceOf',
+        args: [signerAddress, choiceId],
+      });
+
+      if (balance < requested) {
+        throw new RelayError('INSUFFICIENT_STAKE_BALANCE', 'Insufficient stake balance', {
+          details: `EOA ${signerAddress} holds ${balance.toString()} of choice ${choiceId}, cannot unstake ${requested.toString()}`,
+        });
+      }
+    }
+  }
+
+  // Build the addStakes / removeStakes call data
+  const callData = encodeFunctionData({
+    abi: STAKER_WALLET_ABI,
+    functionName: operation === 'unstake' ? 'removeStakes' : 'addStakes',
+    args: [choiceIds, amounts],
+  });
+
+  // Simulate the type-4 transaction before broadcasting so reverts come back decoded. With
+  // batching the StakerWallet only accepts the executor as caller, so simulate as the executor.
+  const { batching } = chainConfig;
+  const simulation = await simulateRelay(publicClient, {
+    account: batching?.executor ?? account.address,
+    to: signerAddress,
+    data: callData,
+    authorizationList,
+  });
+  if (!simulation.ok) {
+    throw new RelayError(simulation.revert.code, simulation.revert.message, {
+      status: 422,
+      details: {
+        errorName: simulation.revert.errorName,
+        args: simulation.revert.args,
+      },
+    });
+  }
+  attempt.gasEstimate = simulation.gasEstimate;
+
+  // Daily stake and gas budgets need the EOA and the gas estimate, so they come last
+  await enforceBudgetPolicy(env.AUDIT_DB, chainConfig, {
+    eoa: signerAddress,
+    operation,
+    totalAmount,
+    gasEstimate: simulation.gasEstimate,
+    now: attempt.createdAt,
+  });
+
+  const details = {
+    relayer: account.address,
+    chainId,
+    operation,
+    eoa: signerAddress,
+    delegatedTo: allowedAddress,
+    choiceIds: choiceIds.map(id => id.toString()),
+    amounts: amounts.map(amt => amt.toString()),
+    totalAmount: totalAmount.toString(),
+    gasEstimate: simulation.gasEstimate.toString(),
+    batchExecutor: batching?.executor,
+  };
+
+  if (body.dryRun) {
+    attempt.status = 'dry_run';
+    return jsonResponse({ success: true, dryRun: true, details } satisfies RelayResponse);
+  }
+
+  if (env.ENVIRONMENT !== 'production') {
+    // eslint-disable-next-line no-console
+    console.log('Relaying transaction:', {
+      operation,
+      from: account.address,
+      to: signerAddress, // Send to the EOA that signed the authorization
+      via: batching?.executor ?? 'direct',
+      authorizationList,
+      data: callData,
+    });
+  }
+
+  // Queue the transaction with the authorization; the queue assigns the relayer nonce.
+  // With batching the call waits for the chain's next RelayBatchExecutor transaction.
+  const submission = batching
+    ? await submitToBatch(env, {
+      chainId,
+      eoa: signerAddress,
+      data: callData,
+      authorization: authorizationList[0],
+      gas: simulation.gasEstimate.toString(),
+      idempotency,
+    })
+    : await submitToQueue(env, {
+      chainId,
+      to: signerAddress, // The EOA that will be delegated
+      data: callData,
+      authorizationList,
+      gas: simulation.gasEstimate.toString(),
+      idempotency,
+    });
+  const { txHash, nonce: relayerNonce, batchIndex } = submission;
+  attempt.status = submission.duplicate ? 'duplicate' : 'pending';
+  if (!submission.duplicate) {
+    attempt.broadcastAt = Date.now();
+  }
+  attempt.txHash = txHash;
+  attempt.relayerNonce = relayerNonce;
+  attempt.batchIndex = batchIndex;
+
+  if (env.ENVIRONMENT !== 'production') {
+    // eslint-disable-next-line no-console
+    console.log('Transaction sent:', txHash);
+  }
+
+  return jsonResponse({
+    success: true,
+    txHash,
+    duplicate: submission.duplicate,
+    status: submission.status ?? 'pending',
+    minedHash: submission.minedHash,
+    batchIndex,
+    details: { ...details, relayerNonce },
+  } satisfies RelayResponse);
+}
@@ -0,0 +1,65 @@
+import {
+  encodeAbiParameters,
+  keccak256,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem';
+import type { QueuedAuthorization } from './relayQueue';
+import type { RelayOperation } from './types';
+
+// Keys the RelayQueue deduplicates submissions on, plus a fingerprint of what was asked
+export interface RelayIdempotency {
+  keys: string[]; // `sig:<fingerprint>` first, then the client's Idempotency-Key if it sent one
+  fingerprint: Hex;
+}
+
+/**
+ * Derive the idempotency keys for a relay. The first is always what was signed
+ * (the authorization signature, or the intent hash) plus the operation, so a
+ * double tap or retried POST of the same signed request maps onto the
+ * transaction that was already sent, whatever header came with it. Intents are
+ * keyed on their hash rather than the signature, so a second signature over the
+ * same intent is a replay of it; the record outlives INTENT_MAX_TTL_SECONDS, so
+ * an intent is consumed until its deadline has passed. A client-supplied
+ * Idempotency-Key, scoped to the EOA, is only an extra alias for the same record.
+ */
+export function relayIdempotency(params: {
+  clientKey?: string;
+  eoa: Address;
+  chainId: number;
+  operation: RelayOperation;
+  choiceIds: bigint[];
+  amounts: bigint[];
+  signed: { authorization: QueuedAuthorization } | { intentHash: Hex };
+}): RelayIdempotency {
+  const signed = 'authorization' in params.signed
+    ? `${params.signed.authorization.r}${params.signed.authorization.s.slice(2)}${toHex(params.signed.authorization.yParity, { size: 1 }).slice(2)}` as Hex
+    : params.signed.intentHash;
+
+  const fingerprint = keccak256(
+    encodeAbiParameters(
+      [
+        { type: 'address' },
+        { type: 'uint256' },
+        { type: 'string' },
+        { type: 'uint256[]' },
+        { type: 'uint256[]' },
+        { type: 'bytes' },
+      ],
+      [
+        params.eoa,
+        BigInt(params.chainId),
+        params.operation,
+        params.choiceIds,
+        params.amounts,
+        signed,
+      ]
+    )
+  );
+
+  return {
+    keys: [`sig:${fingerprint}`, ...(params.clientKey ? [`client:${params.eoa.toLowerCase()}:${params.clientKey}`] : [])],
+    fingerprint,
+  };
+}
@@ -0,0 +1,49 @@
+import { delegationDesignator } from '@tap-stake/sdk';
+import { recoverMessageAddress, type Address, type Hex, type PublicClient } from 'viem';
+import { RelayError } from './errors';
+
+// Signed proof that an already-delegated EOA wants this operation relayed
+export type { RelayIntent } from '@tap-stake/sdk';
+
+// Recover the address that signed an intent hash
+export async function recoverIntentSigner(intentHash: Hex, signature: Hex): Promise<Address> {
+  return recoverMessageAddress({ message: { raw: intentHash }, signature });
+}
+
+// Check whether the EOA's code is the delegation designator for the given contract
+export async function isDelegatedTo(
+  publicClient: PublicClient,
+  eoa: Address,
+  contract: Address
+): Promise<boolean> {
+  const code = await publicClient.getCode({ address: eoa });
+  return code?.toLowerCase() === delegationDesignator(contract).toLowerCase();
+}
+
+/**
+ * Refuse an authorization that can't be the EOA's next one. Mined authorizations
+ * are public, so a replayed one would otherwise let anyone relay any split
+ * against the existing delegation. Once the EOA is delegated to the StakerWallet,
+ * it acts through signed intents instead.
+ */
+export async function assertAuthorizationCurrent(
+  publicClient: PublicClient,
+  eoa: Address,
+  authorization: { nonce: number },
+  stakerWallet: Address
+): Promise<void> {
+  const [delegated, currentNonce] = await Promise.all([
+    isDelegatedTo(publicClient, eoa, stakerWallet),
+    publicClient.getTransactionCount({ address: eoa }),
+  ]);
+  if (delegated) {
+    throw new RelayError('EOA_ALREADY_DELEGATED', 'EOA already delegated', {
+      details: `EOA ${eoa} is already delegated to ${stakerWallet}, send a signed intent instead`,
+    });
+  }
+  if (authorization.nonce !== currentNonce) {
+    throw new RelayError('STALE_NONCE', 'Nonce is not current', {
+      details: `EOA ${eoa} is at nonce ${currentNonce}, authorization has ${authorization.nonce}`,
+    });
+  }
+}
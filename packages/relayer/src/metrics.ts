@@ -0,0 +1,153 @@
+import { createPublicClient, formatEther, http } from 'viem';
+import { aggregateAuditMetrics, type AuditHistogram } from './audit';
+import { loadChainRegistry, type ChainConfig } from './chains';
+import { relayerAddress } from './signer';
+import type { Env } from './types';
+
+// Histogram bucket upper bounds
+const BROADCAST_SECONDS_BUCKETS = [0.25, 0.5, 1, 2, 5, 10, 30];
+const CONFIRM_SECONDS_BUCKETS = [2, 5, 10, 20, 30, 60, 120, 300, 600];
+const GAS_USED_BUCKETS = [50_000, 100_000, 150_000, 200_000, 300_000, 500_000, 1_000_000];
+
+type Labels = Record<string, string | number>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  samples: { suffix?: string; labels: Labels; value: number }[];
+}
+
+// Helper to label rows that failed before their chain was known
+function chainLabel(chainId: number | null): string {
+  return chainId === null ? 'unknown' : chainId.toString();
+}
+
+// Helper to expand per-chain histograms into _bucket, _sum and _count samples
+function histogramSamples(histograms: AuditHistogram[], bounds: number[]): MetricFamily['samples'] {
+  return histograms.flatMap((histogram): MetricFamily['samples'] => {
+    const chain_id = chainLabel(histogram.chainId);
+    return [
+      ...bounds.map((bound, i) => ({ suffix: '_bucket', labels: { chain_id, le: bound }, value: histogram.buckets[i] })),
+      { suffix: '_bucket', labels: { chain_id, le: '+Inf' }, value: histogram.count },
+      { suffix: '_sum', labels: { chain_id }, value: histogram.sum },
+      { suffix: '_count', labels: { chain_id }, value: histogram.count },
+    ];
+  });
+}
+
+// Helper to read the relayer's balance on one chain, or null when the RPC is down
+async function relayerBalance(chainConfig: ChainConfig, env: Env): Promise<number | null> {
+  const publicClient = createPublicClient({ chain: chainConfig.chain, transport: http(chainConfig.rpcUrl) });
+  try {
+    return Number(formatEther(await publicClient.getBalance({ address: relayerAddress(env) })));
+  } catch {
+    return null;
+  }
+}
+
+// Helper to write metric families in the Prometheus text exposition format
+function renderPrometheus(families: MetricFamily[]): string {
+  const escape = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  const lines: string[] = [];
+  for (const family of families) {
+    lines.push(`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`);
+    for (const sample of family.samples) {
+      const labels = Object.entries(sample.labels).map(([key, value]) => `${key}="${escape(String(value))}"`);
+      lines.push(`${family.name}${sample.suffix ?? ''}${labels.length > 0 ? `{${labels.join(',')}}` : ''} ${sample.value}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Relayer metrics in Prometheus text format. Counts and histograms come from
+ * the audit log, so they cover every worker instance and survive deploys;
+ * balances are read live from each chain's RPC.
+ */
+export async function collectMetrics(env: Env): Promise<string> {
+  const chains = [...loadChainRegistry(env).values()];
+  const [audit, balances] = await Promise.all([
+    aggregateAuditMetrics(env.AUDIT_DB, {
+      broadcastSeconds: BROADCAST_SECONDS_BUCKETS,
+      confirmSeconds: CONFIRM_SECONDS_BUCKETS,
+      gasUsed: GAS_USED_BUCKETS,
+    }),
+    Promise.all(chains.map(chainConfig => relayerBalance(chainConfig, env))),
+  ]);
+
+  return renderPrometheus([
+    {
+      name: 'relayer_relay_requests_total',
+      help: 'POST /v1/relay requests by outcome: the error code, or submitted, duplicate or dry_run.',
+      type: 'counter',
+      samples: audit.requests.map(row => ({
+        labels: { chain_id: chainLabel(row.chainId), outcome: row.outcome },
+        value: row.count,
+      })),
+    },
+    {
+      name: 'relayer_relays_mined_total',
+      help: 'Relays whose transaction was mined, by whether the relay\'s call succeeded.',
+      type: 'counter',
+      samples: audit.mined.map(row => ({
+        labels: { chain_id: chainLabel(row.chainId), status: row.status },
+        value: row.count,
+      })),
+    },
+    {
+      name: 'relayer_validation_rejections_total',
+      help: 'Relay requests rejected by validation, by policy rule or error code.',
+      type: 'counter',
+      samples: audit.rejections.map(row => ({
+        labels: { chain_id: chainLabel(row.chainId), rule: row.rule },
+        value: row.count,
+      })),
+    },
+    {
+      name: 'relayer_time_to_broadcast_seconds',
+      help: 'Time from receiving a relay request to broadcasting its transaction.',
+      type: 'histogram',
+      samples: histogramSamples(audit.timeToBroadcast, BROADCAST_SECONDS_BUCKETS),
+    },
+    {
+      name: 'relayer_time_to_confirm_seconds',
+      help: 'Time from broadcast to the transaction reaching the chain\'s required confirmations.',
+      type: 'histogram',
+      samples: histogramSamples(audit.timeToConfirm, CONFIRM_SECONDS_BUCKETS),
+    },
+    {
+      name: 'relayer_gas_used',
+      help: 'Gas used per mined relay; a batch\'s gas is split evenly across its relays.',
+      type: 'histogram',
+      samples: histogramSamples(audit.gasUsed, GAS_USED_BUCKETS),
+    },
+    {
+      name: 'relayer_balance_eth',
+      help: 'Relayer account balance in ETH. Missing when the chain\'s RPC is unreachable.',
+      type: 'gauge',
+      samples: chains.flatMap((chainConfig, i) => {
+        const balance = balances[i];
+        return balance === null ? [] : [{ labels: { chain_id: chainConfig.chain.id }, value: balance }];
+      }),
+    },
+    {
+      name: 'relayer_min_balance_eth',
+      help: 'Balance below which the relayer refuses new relays.',
+      type: 'gauge',
+      samples: chains.map(chainConfig => ({
+        labels: { chain_id: chainConfig.chain.id },
+        value: Number(formatEther(chainConfig.minRelayerBalance)),
+      })),
+    },
+    {
+      name: 'relayer_rpc_up',
+      help: 'Whether the chain\'s RPC answered the balance check.',
+      type: 'gauge',
+      samples: chains.map((chainConfig, i) => ({
+        labels: { chain_id: chainConfig.chain.id },
+        value: balances[i] === null ? 0 : 1,
+      })),
+    },
+  ]);
+}
@@ -0,0 +1,201 @@
+import { formatEther, type Address, type PublicClient } from 'viem';
+import { STAKER_WALLET_ABI } from './abis';
+import { sponsoredUsageSince } from './audit';
+import { cached } from './cache';
+import type { ChainConfig } from './chains';
+import { RelayError } from './errors';
+import type { RelayOperation } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shape of the `policy` entry of a chain in CHAIN_CONFIGS; amounts in wei, gas in gas units
+export interface SponsorshipPolicyInput {
+  maxStakePerTx?: string; // Never above the StakerWallet's on-chain maxStakePerTx
+  maxStakePerChoice?: string;
+  eoaDailyStake?: string;
+  eoaDailyGas?: string;
+  globalDailyGas?: string;
+  campaigns?: { name: string; start: string; end: string }[]; // ISO 8601 times
+}
+
+export interface CampaignWindow {
+  name: string;
+  start: number; // Unix ms, inclusive
+  end: number; // Unix ms, exclusive
+}
+
+export interface SponsorshipPolicy {
+  maxStakePerTx?: bigint;
+  maxStakePerChoice?: bigint;
+  eoaDailyStake?: bigint;
+  eoaDailyGas?: bigint;
+  globalDailyGas?: bigint;
+  campaigns: CampaignWindow[]; // Stakes are only sponsored inside one of these, if any are set
+}
+
+// Rule names reported in POLICY_VIOLATION details and the audit log
+export type PolicyRule =
+  | 'campaign_window'
+  | 'max_stake_per_tx'
+  | 'max_stake_per_choice'
+  | 'eoa_daily_stake'
+  | 'eoa_daily_gas'
+  | 'global_daily_gas';
+
+/**
+ * Parse a chain's policy entry. Throws a plain Error on bad values, which
+ * loadChainRegistry reports as invalid CHAIN_CONFIGS.
+ */
+export function parseSponsorshipPolicy(input: SponsorshipPolicyInput): SponsorshipPolicy {
+  const amount = (value: string | undefined): bigint | undefined => (value !== undefined ? BigInt(value) : undefined);
+  const time = (value: string): number => {
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) {
+      throw new Error(`Invalid campaign time ${value}`);
+    }
+    return parsed;
+  };
+
+  return {
+    maxStakePerTx: amount(input.maxStakePerTx),
+    maxStakePerChoice: amount(input.maxStakePerChoice),
+    eoaDailyStake: amount(input.eoaDailyStake),
+    eoaDailyGas: amount(input.eoaDailyGas),
+    globalDailyGas: amount(input.globalDailyGas),
+    campaigns: (input.campaigns ?? []).map(campaign => ({
+      name: campaign.name,
+      start: time(campaign.start),
+      end: time(campaign.end),
+    })),
+  };
+}
+
+// Helper to reject with the rule that fired
+function violation(rule: PolicyRule, message: string, details: Record<string, unknown> = {}): never {
+  throw new RelayError('POLICY_VIOLATION', `Sponsorship policy: ${rule}`, {
+    status: 403,
+    details: { rule, message, ...details },
+  });
+}
+
+// StakerWallet's maxStakePerTx immutable, which the relayer's cap can't exceed
+function getOnChainMaxStakePerTx(publicClient: PublicClient, stakerWallet: Address): Promise<bigint> {
+  return cached(`maxStakePerTx:${publicClient.chain?.id}:${stakerWallet}`, Infinity, () =>
+    publicClient.readContract({
+      address: stakerWallet,
+      abi: STAKER_WALLET_ABI,
+      functionName: 'maxStakePerTx',
+    })
+  );
+}
+
+// Effective per-transaction cap: the configured one, bounded by the on-chain limit
+export async function effectiveMaxStakePerTx(publicClient: PublicClient, chainConfig: ChainConfig): Promise<bigint> {
+  const onChain = await getOnChainMaxStakePerTx(publicClient, chainConfig.stakerWallet);
+  const configured = chainConfig.policy.maxStakePerTx;
+  return configured !== undefined && configured < onChain ? configured : onChain;
+}
+
+/**
+ * Rules that only depend on the request: campaign windows and the per-tx and
+ * per-choice caps. Unstakes are exempt so users can always withdraw.
+ */
+export async function enforceRequestPolicy(
+  publicClient: PublicClient,
+  chainConfig: ChainConfig,
+  request: { operation: RelayOperation; choiceIds: bigint[]; amounts: bigint[]; now: number }
+): Promise<void> {
+  if (request.operation !== 'stake') {
+    return;
+  }
+  const { policy } = chainConfig;
+
+  if (policy.campaigns.length > 0) {
+    const open = policy.campaigns.some(campaign => request.now >= campaign.start && request.now < campaign.end);
+    if (!open) {
+      const next = policy.campaigns
+        .filter(campaign => campaign.start > request.now)
+        .sort((a, b) => a.start - b.start)[0];
+      violation('campaign_window', 'No sponsored campaign is open right now', {
+        nextCampaign: next ? { name: next.name, start: new Date(next.start).toISOString() } : null,
+      });
+    }
+  }
+
+  const total = request.amounts.reduce((sum, amt) => sum + amt, 0n);
+  const maxStakePerTx = await effectiveMaxStakePerTx(publicClient, chainConfig);
+  if (total > maxStakePerTx) {
+    violation('max_stake_per_tx', `Total amount ${formatEther(total)} exceeds the per-transaction cap of ${formatEther(maxStakePerTx)}`, {
+      limit: maxStakePerTx.toString(),
+      requested: total.toString(),
+    });
+  }
+
+  if (policy.maxStakePerChoice !== undefined) {
+    const byChoice = new Map<bigint, bigint>();
+    request.choiceIds.forEach((id, i) => byChoice.set(id, (byChoice.get(id) ?? 0n) + request.amounts[i]));
+    for (const [choiceId, amount] of byChoice) {
+      if (amount > policy.maxStakePerChoice) {
+        violation('max_stake_per_choice', `Stake of ${formatEther(amount)} on choice ${choiceId} exceeds the per-choice cap of ${formatEther(policy.maxStakePerChoice)}`, {
+          choiceId: choiceId.toString(),
+          limit: policy.maxStakePerChoice.toString(),
+          requested: amount.toString(),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Daily budgets, checked against what the audit log says was sponsored since
+ * UTC midnight: per-EOA stake and gas, and the chain-wide gas budget.
+ */
+export async function enforceBudgetPolicy(
+  db: D1Database,
+  chainConfig: ChainConfig,
+  request: { eoa: Address; operation: RelayOperation; totalAmount: bigint; gasEstimate: bigint; now: number }
+): Promise<void> {
+  const { policy } = chainConfig;
+  if (policy.eoaDailyStake === undefined && policy.eoaDailyGas === undefined && policy.globalDailyGas === undefined) {
+    return;
+  }
+
+  const dayStart = request.now - (request.now % DAY_MS);
+  const resetsAt = new Date(dayStart + DAY_MS).toISOString();
+  const usage = await sponsoredUsageSince(db, {
+    chainId: chainConfig.chain.id,
+    eoa: request.eoa,
+    since: dayStart,
+  });
+
+  if (policy.globalDailyGas !== undefined && usage.globalGas + request.gasEstimate > policy.globalDailyGas) {
+    violation('global_daily_gas', 'The relayer has used up its gas budget for today', {
+      limit: policy.globalDailyGas.toString(),
+      used: usage.globalGas.toString(),
+      requested: request.gasEstimate.toString(),
+      resetsAt,
+    });
+  }
+
+  if (policy.eoaDailyGas !== undefined && usage.eoaGas + request.gasEstimate > policy.eoaDailyGas) {
+    violation('eoa_daily_gas', `EOA ${request.eoa} has used up its gas budget for today`, {
+      limit: policy.eoaDailyGas.toString(),
+      used: usage.eoaGas.toString(),
+      requested: request.gasEstimate.toString(),
+      resetsAt,
+    });
+  }
+
+  if (
+    request.operation === 'stake'
+    && policy.eoaDailyStake !== undefined
+    && usage.eoaStake + request.totalAmount > policy.eoaDailyStake
+  ) {
+    violation('eoa_daily_stake', `Staking ${formatEther(request.totalAmount)} more would take EOA ${request.eoa} over its daily stake of ${formatEther(policy.eoaDailyStake)}`, {
+      limit: policy.eoaDailyStake.toString(),
+      used: usage.eoaStake.toString(),
+      requested: request.totalAmount.toString(),
+      resetsAt,
+    });
+  }
+}
@@ -0,0 +1,129 @@
+import type { Address } from 'viem';
+import { parseJsonVar } from './chains';
+import { RelayError } from './errors';
+import type { Env } from './types';
+
+// Defaults when RATE_LIMITS doesn't set a scope
+const DEFAULT_IP_LIMIT = { limit: 30, windowSeconds: 60 };
+const DEFAULT_EOA_LIMIT = { limit: 10, windowSeconds: 60 };
+
+// Requests are counted per client IP and per recovered signer address
+export type RateLimitScope = 'ip' | 'eoa';
+
+export interface RateLimit {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+// Shape of the RATE_LIMITS JSON var; null turns a scope off
+type RateLimitsInput = Partial<Record<RateLimitScope, { limit: number; windowSeconds: number } | null>>;
+
+// Outcome of a RateLimiter hit
+interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number;
+}
+
+/**
+ * Load the per-scope limits from the RATE_LIMITS var, falling back to the
+ * defaults for scopes it leaves out. Disabled scopes are absent from the map.
+ */
+export function loadRateLimits(env: { RATE_LIMITS?: string }): Map<RateLimitScope, RateLimit> {
+  const input = parseJsonVar<RateLimitsInput>('RATE_LIMITS', env.RATE_LIMITS) ?? {};
+  const defaults: Record<RateLimitScope, { limit: number; windowSeconds: number }> = {
+    ip: DEFAULT_IP_LIMIT,
+    eoa: DEFAULT_EOA_LIMIT,
+  };
+
+  const limits = new Map<RateLimitScope, RateLimit>();
+  for (const scope of ['ip', 'eoa'] as const) {
+    const entry = input[scope] === undefined ? defaults[scope] : input[scope];
+    if (entry === null) {
+      continue;
+    }
+    if (!Number.isInteger(entry.limit) || entry.limit < 1 || !(entry.windowSeconds > 0)) {
+      throw new Error(`Invalid RATE_LIMITS configuration: bad ${scope} limit`);
+    }
+    limits.set(scope, { limit: entry.limit, windowMs: entry.windowSeconds * 1000 });
+  }
+  return limits;
+}
+
+/**
+ * Count a request against the sliding window for `key` in `scope`, failing
+ * with 429 RATE_LIMITED (and a Retry-After header) once the window is full.
+ */
+export async function enforceRateLimit(env: Env, scope: RateLimitScope, key: string): Promise<void> {
+  const rateLimit = loadRateLimits(env).get(scope);
+  if (!rateLimit) {
+    return;
+  }
+
+  const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`${scope}:${key.toLowerCase()}`));
+  const response = await stub.fetch('https://rate-limiter/hit', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rateLimit),
+  });
+  const result = await response.json() as RateLimitResult;
+  if (result.allowed) {
+    return;
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  throw new RelayError('RATE_LIMITED', 'Too many requests', {
+    status: 429,
+    headers: { 'Retry-After': retryAfterSeconds.toString() },
+    details: {
+      scope,
+      limit: rateLimit.limit,
+      windowSeconds: rateLimit.windowMs / 1000,
+      retryAfterSeconds,
+    },
+  });
+}
+
+// Rate limit a request by the client IP Cloudflare saw
+export function enforceIpRateLimit(env: Env, request: Request): Promise<void> {
+  return enforceRateLimit(env, 'ip', request.headers.get('CF-Connecting-IP') ?? 'unknown');
+}
+
+// Rate limit a request by the EOA it acts for, once the signer is recovered
+export function enforceEoaRateLimit(env: Env, eoa: Address): Promise<void> {
+  return enforceRateLimit(env, 'eoa', eoa);
+}
+
+/**
+ * Durable Object holding the sliding-window request log for one rate limit key
+ * (an IP or an EOA). Only accepted requests are logged, and the alarm clears
+ * the log once the key has been quiet for a full window.
+ */
+export class RateLimiter implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (request.method !== 'POST' || url.pathname !== '/hit') {
+      return new Response('Not found', { status: 404 });
+    }
+
+    const { limit, windowMs } = await request.json() as RateLimit;
+    const now = Date.now();
+    const hits = ((await this.state.storage.get<number[]>('hits')) ?? []).filter(at => at > now - windowMs);
+
+    if (hits.length >= limit) {
+      // The window frees a slot when the oldest request still inside it ages out
+      const retryAfterMs = hits[hits.length - limit] + windowMs - now;
+      return Response.json({ allowed: false, retryAfterMs } satisfies RateLimitResult);
+    }
+
+    hits.push(now);
+    await this.state.storage.put('hits', hits);
+    await this.state.storage.setAlarm(now + windowMs);
+    return Response.json({ allowed: true, retryAfterMs: 0 } satisfies RateLimitResult);
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
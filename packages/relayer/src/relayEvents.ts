@@ -0,0 +1,117 @@
+import type { RelayEvent } from '@tap-stake/sdk';
+
+// How often an idle stream gets a comment line so proxies don't time it out
+const KEEPALIVE_INTERVAL_MS = 15_000;
+
+// Events are part of the API contract, see @tap-stake/sdk
+export type { RelayEvent, RelayEventType } from '@tap-stake/sdk';
+
+// An open SSE stream, optionally following a single relay of a batch
+interface Subscriber {
+  writer: WritableStreamDefaultWriter<Uint8Array>;
+  batchIndex?: number;
+  keepalive: ReturnType<typeof setInterval>;
+}
+
+const encoder = new TextEncoder();
+
+// Whether the event is the last one a stream will get
+export function isTerminal(event: RelayEvent): boolean {
+  return event.type === 'confirmed' || event.type === 'failed';
+}
+
+/**
+ * Narrow a batch transaction's event to one of its relays: a mined batch
+ * whose call for that relay failed is a failure for that relay.
+ */
+export function narrowToRelay(event: RelayEvent, batchIndex?: number): RelayEvent {
+  if (batchIndex === undefined) {
+    return event;
+  }
+  const narrowed = { ...event, batchIndex };
+  if (event.type === 'confirmed' && event.batchResults && !event.batchResults[batchIndex]) {
+    narrowed.type = 'failed';
+  }
+  return narrowed;
+}
+
+// Helper to format an event as an SSE message; the id lets EventSource resume with Last-Event-ID
+function formatSse(id: number, event: RelayEvent): Uint8Array {
+  return encoder.encode(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Fan-out of relay events to SSE subscribers, keyed by nonce. Lives in the
+ * RelayQueue that produces the events; history comes from its storage.
+ */
+export class RelayEventStreams {
+  private subscribers = new Map<number, Set<Subscriber>>();
+
+  /**
+   * Open a stream for a nonce, replaying the events after `lastEventId` first.
+   * The stream closes after the terminal event.
+   */
+  subscribe(nonce: number, history: RelayEvent[], options: { lastEventId?: number; batchIndex?: number }): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const subscriber: Subscriber = {
+      writer,
+      batchIndex: options.batchIndex,
+      keepalive: setInterval(() => this.write(nonce, subscriber, encoder.encode(': keepalive\n\n')), KEEPALIVE_INTERVAL_MS),
+    };
+
+    // Ask EventSource to wait a little before reconnecting after a drop
+    this.write(nonce, subscriber, encoder.encode('retry: 3000\n\n'));
+
+    let done = false;
+    history.forEach((event, id) => {
+      const narrowed = narrowToRelay(event, options.batchIndex);
+      if (options.lastEventId === undefined || id > options.lastEventId) {
+        this.write(nonce, subscriber, formatSse(id, narrowed));
+      }
+      done ||= isTerminal(narrowed);
+    });
+
+    if (done) {
+      this.close(nonce, subscriber);
+    } else {
+      const set = this.subscribers.get(nonce) ?? new Set();
+      set.add(subscriber);
+      this.subscribers.set(nonce, set);
+    }
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+    });
+  }
+
+  // Send a newly stored event (at index `id` of the nonce's history) to its subscribers
+  publish(id: number, event: RelayEvent): void {
+    for (const subscriber of this.subscribers.get(event.nonce) ?? []) {
+      const narrowed = narrowToRelay(event, subscriber.batchIndex);
+      this.write(event.nonce, subscriber, formatSse(id, narrowed));
+      if (isTerminal(narrowed)) {
+        this.close(event.nonce, subscriber);
+      }
+    }
+  }
+
+  // Helper to write without waiting on a slow reader; a failed write means the client left
+  private write(nonce: number, subscriber: Subscriber, chunk: Uint8Array): void {
+    subscriber.writer.write(chunk).catch(() => this.close(nonce, subscriber));
+  }
+
+  private close(nonce: number, subscriber: Subscriber): void {
+    clearInterval(subscriber.keepalive);
+    subscriber.writer.close().catch(() => undefined);
+
+    const set = this.subscribers.get(nonce);
+    set?.delete(subscriber);
+    if (set?.size === 0) {
+      this.subscribers.delete(nonce);
+    }
+  }
+}
@@ -0,0 +1,781 @@
+import {
+  BaseError,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  NonceTooLowError,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type LocalAccount,
+  type PublicClient,
+} from 'viem';
+import { RELAY_BATCH_EXECUTOR_ABI } from './abis';
+import { recordRelayOutcome } from './audit';
+import { loadChainRegistry, type ChainConfig } from './chains';
+import { RelayError, type RelayErrorCode } from './errors';
+import type { RelayIdempotency } from './idempotency';
+import { RelayEventStreams, type RelayEvent } from './relayEvents';
+import { loadRelayerAccount } from './signer';
+import type { Env } from './types';
+import { deliverWebhooks } from './webhooks';
+
+// How often the alarm checks pending transactions for confirmation
+const CHECK_INTERVAL_MS = 5_000;
+// Re-send a pending transaction with higher fees after this long without a receipt
+const STUCK_AFTER_MS = 30_000;
+// Fee bump per replacement (nodes require at least 10% to accept a replacement)
+const FEE_BUMP_PERCENT = 20n;
+// Give up re-sending after this many replacements
+const MAX_REPLACEMENTS = 5;
+// How long a relay's idempotency key keeps mapping to the transaction it sent.
+// Must outlive INTENT_MAX_TTL_SECONDS, since this record is what consumes an intent
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+// A finished nonce's records are kept as long, for duplicates' status and late subscribers
+const RECORD_TTL_MS = IDEMPOTENCY_TTL_MS;
+// Durable Object storage takes at most 128 keys per call
+const MAX_STORAGE_KEYS = 128;
+
+export interface QueuedAuthorization {
+  address: Address;
+  chainId: number;
+  nonce: number;
+  r: Hex;
+  s: Hex;
+  yParity: number;
+}
+
+// Transaction handed to the queue by the worker
+export interface QueuedTransaction {
+  chainId: number;
+  to: Address;
+  data: Hex;
+  authorizationList: QueuedAuthorization[]; // Empty when the EOA is already delegated
+  gas?: string; // Gas limit from the worker's pre-flight simulation, estimated here if absent
+  idempotency?: RelayIdempotency; // Return the earlier transaction instead of sending a repeat
+  batch?: BatchMember[]; // Relays carried by an executeBatch call, in call order
+}
+
+// A single relay handed to the queue to be sent in the chain's next batch
+export interface BatchEntry {
+  chainId: number;
+  eoa: Address;
+  data: Hex; // addStakes / removeStakes call on the EOA
+  authorization?: QueuedAuthorization; // Absent when the EOA is already delegated
+  gas: string; // From the worker's simulation of this call on its own
+  idempotency: RelayIdempotency;
+}
+
+// A relay's place in a batched transaction
+interface BatchMember {
+  eoa: Address;
+  idempotency: RelayIdempotency;
+}
+
+// An empty authorizationList would make an invalid type-4 transaction; send a plain call instead
+export function toAuthorizationList(list: QueuedAuthorization[]): QueuedAuthorization[] | undefined {
+  return list.length > 0 ? list : undefined;
+}
+
+export type PendingStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface SubmitResult {
+  txHash: Hex;
+  nonce: number;
+  duplicate?: boolean; // Set when an earlier submission with the same idempotency key was returned
+  status?: PendingStatus; // Current status of a duplicate's transaction
+  minedHash?: Hex; // Hash that was actually mined, when a fee-bumped replacement won
+  batchIndex?: number; // Position in a batched transaction; `status` is then this relay's own
+}
+
+// A relayer transaction awaiting confirmation, stored under `pending:<nonce>`
+interface PendingTransaction extends QueuedTransaction {
+  nonce: number;
+  gas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  hashes: Hex[]; // Every hash sent for this nonce, latest last
+  lastSentAt: number;
+  includedIn?: string; // Block the receipt was seen in, while waiting for confirmations
+}
+
+// Final outcome of a transaction, stored under `tx:<hash>` for every hash that was sent
+interface TransactionRecord {
+  nonce: number;
+  status: PendingStatus;
+  minedHash?: Hex;
+  blockNumber?: string;
+  gasUsed?: string;
+  batchResults?: boolean[]; // Per-call success of a mined batch
+}
+
+// First transaction sent for an idempotency key, stored under `idem:<key>`
+interface IdempotencyRecord {
+  txHash: Hex;
+  nonce: number;
+  fingerprint: Hex;
+  createdAt: number;
+  batchIndex?: number;
+}
+
+// Storage keys of a finished nonce, deleted together once RECORD_TTL_MS has passed.
+// Stored under `prune:<due>:<nonce>` so the due ones list first.
+interface PruneRecord {
+  keys: string[];
+}
+
+// Helper to build a prune key; the zero-padded time keeps them in due order
+function pruneKey(dueAt: number, nonce: number): string {
+  return `prune:${dueAt.toString().padStart(15, '0')}:${nonce}`;
+}
+
+// Helper to store the same record under every key of a relay, by storage key
+function idempotencyRecords(
+  idempotency: RelayIdempotency,
+  record: Omit<IdempotencyRecord, 'fingerprint'>
+): Record<string, IdempotencyRecord> {
+  return Object.fromEntries(
+    idempotency.keys.map(key => [`idem:${key}`, { ...record, fingerprint: idempotency.fingerprint }])
+  );
+}
+
+// Relays collected for the next batch, sent when the window closes or the batch fills up
+interface OpenBatch {
+  entries: BatchEntry[];
+  close: () => void;
+  sent: Promise<SubmitResult>;
+}
+
+// Helper to get a relay's status: its transaction's, narrowed to its own call when batched
+function relayStatus(tx: TransactionRecord | undefined, batchIndex?: number): PendingStatus {
+  if (!tx) {
+    return 'pending';
+  }
+  if (batchIndex === undefined || tx.status !== 'confirmed' || !tx.batchResults) {
+    return tx.status;
+  }
+  return tx.batchResults[batchIndex] ? 'confirmed' : 'failed';
+}
+
+// Helper to turn an error thrown inside the queue into a response the worker can rethrow
+function failureResponse(error: unknown): Response {
+  if (error instanceof RelayError) {
+    return Response.json({ error: error.message, code: error.code, details: error.details }, { status: error.status });
+  }
+  const err = error as Error & { shortMessage?: string; details?: unknown };
+  return Response.json(
+    {
+      error: err.shortMessage || err.message || 'Transaction failed',
+      details: {
+        message: err.message,
+        details: err.details,
+      },
+    },
+    { status: 500 }
+  );
+}
+
+// Helper to turn a failed RelayQueue response into a RelayError
+async function queueError(response: Response): Promise<RelayError> {
+  const failure = await response.json().catch(() => ({})) as { error?: string; code?: RelayErrorCode; details?: unknown };
+  return new RelayError(failure.code ?? 'BROADCAST_FAILED', failure.error ?? 'Relay queue request failed', {
+    status: failure.code ? response.status : 500,
+    details: failure.details,
+  });
+}
+
+// Helper to get the RelayQueue stub for a chain
+function queueStub(env: Env, chainId: number): DurableObjectStub {
+  return env.RELAY_QUEUE.get(env.RELAY_QUEUE.idFromName(`chain-${chainId}`));
+}
+
+/**
+ * Submit a transaction through the chain's RelayQueue so relayer nonces are
+ * assigned by a single coordinator instead of per request.
+ */
+export async function submitToQueue(env: Env, tx: QueuedTransaction): Promise<SubmitResult> {
+  const response = await queueStub(env, tx.chainId).fetch('https://relay-queue/submit', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(tx),
+  });
+  if (!response.ok) {
+    throw await queueError(response);
+  }
+  return response.json() as Promise<SubmitResult>;
+}
+
+/**
+ * Hand a relay to the chain's RelayQueue for its next RelayBatchExecutor
+ * transaction. Resolves once the batch is broadcast, with the relay's index in it.
+ */
+export async function submitToBatch(env: Env, entry: BatchEntry): Promise<SubmitResult> {
+  const response = await queueStub(env, entry.chainId).fetch('https://relay-queue/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(entry),
+  });
+  if (!response.ok) {
+    throw await queueError(response);
+  }
+  return response.json() as Promise<SubmitResult>;
+}
+
+/**
+ * Open the chain's RelayQueue SSE stream of lifecycle events for a relayer
+ * transaction. Fails with NOT_FOUND when the queue never sent the hash.
+ */
+export async function subscribeToRelayEvents(
+  env: Env,
+  chainId: number,
+  txHash: Hex,
+  options: { batchIndex?: number; lastEventId?: number }
+): Promise<Response> {
+  const url = new URL('https://relay-queue/events');
+  url.searchParams.set('hash', txHash.toLowerCase());
+  if (options.batchIndex !== undefined) {
+    url.searchParams.set('batchIndex', options.batchIndex.toString());
+  }
+  const response = await queueStub(env, chainId).fetch(url.toString(), {
+    headers: options.lastEventId !== undefined ? { 'Last-Event-ID': options.lastEventId.toString() } : {},
+  });
+  if (!response.ok) {
+    throw await queueError(response);
+  }
+  return response;
+}
+
+/**
+ * Look up the transaction already sent for an idempotency key, with its
+ * current status. Resolves to null when the key hasn't been used.
+ */
+export async function findIdempotentSubmission(
+  env: Env,
+  chainId: number,
+  idempotency: RelayIdempotency
+): Promise<SubmitResult | null> {
+  const response = await queueStub(env, chainId).fetch('https://relay-queue/idempotency', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(idempotency),
+  });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw await queueError(response);
+  }
+  return response.json() as Promise<SubmitResult>;
+}
+
+/**
+ * Durable Object that serializes all relayer submissions for one chain.
+ * It owns the relayer's nonce, tracks pending transactions and re-sends
+ * stuck ones with bumped fees from its alarm. On chains with batching it
+ * also collects relays into RelayBatchExecutor transactions. Every step of a
+ * transaction's lifecycle is pushed to SSE subscribers and webhooks.
+ */
+export class RelayQueue implements DurableObject {
+  private tail: Promise<unknown> = Promise.resolve();
+  private openBatch?: OpenBatch;
+  // Relays in a batch that hasn't been stored yet, under each of their idempotency keys
+  private batching = new Map<string, { entry: BatchEntry; result: Promise<SubmitResult> }>();
+  private streams = new RelayEventStreams();
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && url.pathname === '/idempotency') {
+      const idempotency = await request.json() as RelayIdempotency;
+      try {
+        const result = await this.findIdempotent(idempotency);
+        return result ? Response.json(result) : new Response('Not found', { status: 404 });
+      } catch (error) {
+        const err = error as RelayError;
+        return Response.json({ error: err.message, code: err.code, details: err.details }, { status: err.status });
+      }
+    }
+
+    if (request.method === 'POST' && url.pathname === '/submit') {
+      const tx = await request.json() as QueuedTransaction;
+      try {
+        const result = await this.serialize(() => this.submit(tx));
+        return Response.json(result);
+      } catch (error) {
+        return failureResponse(error);
+      }
+    }
+
+    if (request.method === 'POST' && url.pathname === '/batch') {
+      const entry = await request.json() as BatchEntry;
+      try {
+        return Response.json(await this.addToBatch(entry));
+      } catch (error) {
+        return failureResponse(error);
+      }
+    }
+
+    if (request.method === 'GET' && url.pathname === '/events') {
+      const batchIndex = url.searchParams.get('batchIndex');
+      const lastEventId = request.headers.get('Last-Event-ID');
+      return this.subscribe(url.searchParams.get('hash') as Hex, {
+        batchIndex: batchIndex === null ? undefined : Number(batchIndex),
+        lastEventId: lastEventId === null ? undefined : Number(lastEventId),
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+
+  async alarm(): Promise<void> {
+    await this.serialize(() => this.checkPending());
+    await this.serialize(() => this.pruneRecords());
+
+    // Keep polling while anything is pending, otherwise wake up for the next prune
+    const remaining = await this.state.storage.list({ prefix: 'pending:', limit: 1 });
+    if (remaining.size > 0) {
+      await this.state.storage.setAlarm(Date.now() + CHECK_INTERVAL_MS);
+      return;
+    }
+    const [nextPrune] = await this.state.storage.list({ prefix: 'prune:', limit: 1 });
+    if (nextPrune) {
+      await this.state.storage.setAlarm(Number(nextPrune[0].split(':')[1]));
+    }
+  }
+
+  // Delete the tx, events and idempotency records of nonces that finished RECORD_TTL_MS ago
+  private async pruneRecords(): Promise<void> {
+    const due = await this.state.storage.list<PruneRecord>({
+      prefix: 'prune:',
+      end: pruneKey(Date.now() + 1, 0),
+    });
+    const keys = [...due].flatMap(([key, record]) => [...record.keys, key]);
+    for (let i = 0; i < keys.length; i += MAX_STORAGE_KEYS) {
+      await this.state.storage.delete(keys.slice(i, i + MAX_STORAGE_KEYS));
+    }
+  }
+
+  // Run tasks one at a time, even across awaits on RPC calls
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(task);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private getChainConfig(chainId: number): ChainConfig {
+    const chainConfig = loadChainRegistry(this.env).get(chainId);
+    if (!chainConfig) {
+      throw new Error(`Unsupported chain ID: ${chainId}`);
+    }
+    return chainConfig;
+  }
+
+  private getClients(chainConfig: ChainConfig): {
+    account: LocalAccount;
+    publicClient: PublicClient;
+    walletClient: ReturnType<typeof createWalletClient>;
+  } {
+    const account = loadRelayerAccount(this.env);
+    const transport = http(chainConfig.rpcUrl);
+    return {
+      account,
+      publicClient: createPublicClient({ chain: chainConfig.chain, transport }) as PublicClient,
+      walletClient: createWalletClient({ account, chain: chainConfig.chain, transport }),
+    };
+  }
+
+  // Stream a transaction's events; its nonce's history is replayed first
+  private async subscribe(hash: Hex, options: { batchIndex?: number; lastEventId?: number }): Promise<Response> {
+    const tx = await this.state.storage.get<TransactionRecord>(`tx:${hash}`);
+    if (!tx) {
+      return failureResponse(new RelayError('NOT_FOUND', 'Transaction not found', {
+        status: 404,
+        details: `${hash} was not sent by this relayer on this chain`,
+      }));
+    }
+    const history = await this.state.storage.get<RelayEvent[]>(`events:${tx.nonce}`) ?? [];
+    return this.streams.subscribe(tx.nonce, history, options);
+  }
+
+  /**
+   * Record an event in its nonce's history, then push it to open streams and
+   * webhooks. Webhook delivery runs in the background.
+   */
+  private async emit(event: Omit<RelayEvent, 'at'>): Promise<void> {
+    const key = `events:${event.nonce}`;
+    const history = await this.state.storage.get<RelayEvent[]>(key) ?? [];
+    const stored: RelayEvent = { ...event, at: Date.now() };
+    history.push(stored);
+    await this.state.storage.put(key, history);
+
+    this.streams.publish(history.length - 1, stored);
+    this.state.waitUntil(deliverWebhooks(this.env, stored));
+  }
+
+  // Next nonce to use, never behind the chain's pending count
+  private async nextNonce(publicClient: PublicClient, address: Address, resync = false): Promise<number> {
+    const onChain = await publicClient.getTransactionCount({ address, blockTag: 'pending' });
+    const stored = resync ? undefined : await this.state.storage.get<number>('nextNonce');
+    return Math.max(stored ?? 0, onChain);
+  }
+
+  // Earlier submission under any of the relay's idempotency keys, with its transaction's current status
+  private async findIdempotent({ keys, fingerprint }: RelayIdempotency): Promise<SubmitResult | null> {
+    const records = await this.state.storage.get<IdempotencyRecord>(keys.map(key => `idem:${key}`));
+    let found: IdempotencyRecord | undefined;
+    for (const [storageKey, record] of records) {
+      if (Date.now() - record.createdAt > IDEMPOTENCY_TTL_MS) {
+        await this.state.storage.delete(storageKey);
+        continue;
+      }
+      // Only a client key can collide: the signature key is derived from the fingerprint
+      if (record.fingerprint !== fingerprint) {
+        throw new RelayError('IDEMPOTENCY_KEY_REUSED', 'Idempotency key reused', {
+          status: 422,
+          details: `Key was first used for a different request, sent as ${record.txHash}`,
+        });
+      }
+      found ??= record;
+    }
+    if (!found) {
+      return null;
+    }
+
+    const tx = await this.state.storage.get<TransactionRecord>(`tx:${found.txHash}`);
+    return {
+      txHash: found.txHash,
+      nonce: found.nonce,
+      duplicate: true,
+      status: relayStatus(tx, found.batchIndex),
+      minedHash: tx?.minedHash,
+      batchIndex: found.batchIndex,
+    };
+  }
+
+  /**
+   * Add a relay to the open batch, opening one if needed, and wait for the
+   * batch to be sent. A repeat of a relay that is already batched gets that
+   * relay's result instead of a second call.
+   */
+  private async addToBatch(entry: BatchEntry): Promise<SubmitResult> {
+    const batching = this.getChainConfig(entry.chainId).batching;
+    if (!batching) {
+      throw new Error(`Batching is not configured for chain ${entry.chainId}`);
+    }
+
+    // Storage reads hold back other requests, so nothing is batched between these checks
+    const existing = await this.findIdempotent(entry.idempotency);
+    if (existing) {
+      return existing;
+    }
+    const batched = entry.idempotency.keys.map(key => this.batching.get(key)).find(Boolean);
+    if (batched) {
+      if (batched.entry.idempotency.fingerprint !== entry.idempotency.fingerprint) {
+        throw new RelayError('IDEMPOTENCY_KEY_REUSED', 'Idempotency key reused', {
+          status: 422,
+          details: 'Key is already used by a different request in the pending batch',
+        });
+      }
+      return { ...(await batched.result), duplicate: true };
+    }
+
+    if (!this.openBatch) {
+      this.openBatch = this.openNewBatch(batching.executor, batching.windowMs);
+    }
+    const batch = this.openBatch;
+    const batchIndex = batch.entries.push(entry) - 1;
+    if (batch.entries.length >= batching.maxSize) {
+      batch.close();
+    }
+
+    const result = batch.sent.then(({ txHash, nonce }) => ({ txHash, nonce, status: 'pending' as const, batchIndex }));
+    for (const key of entry.idempotency.keys) {
+      this.batching.set(key, { entry, result });
+    }
+    try {
+      return await result;
+    } finally {
+      for (const key of entry.idempotency.keys) {
+        this.batching.delete(key);
+      }
+    }
+  }
+
+  // Helper to open a batch that is sent through the queue once its window closes
+  private openNewBatch(executor: Address, windowMs: number): OpenBatch {
+    let closed!: () => void;
+    const ready = new Promise<void>(resolve => {
+      closed = resolve;
+    });
+    const timer = setTimeout(() => batch.close(), windowMs);
+
+    const batch: OpenBatch = {
+      entries: [],
+      close: () => {
+        clearTimeout(timer);
+        if (this.openBatch === batch) {
+          this.openBatch = undefined;
+        }
+        closed();
+      },
+      sent: ready.then(() => this.serialize(() => this.submitBatch(executor, batch.entries))),
+    };
+    return batch;
+  }
+
+  // Send a batch of relays as one executeBatch call carrying all their authorizations
+  private submitBatch(executor: Address, entries: BatchEntry[]): Promise<SubmitResult> {
+    // Each entry's gas was estimated for its call alone, base transaction cost included,
+    // which leaves room for the executor's loop and events
+    const gas = entries.reduce((sum, entry) => sum + BigInt(entry.gas), 0n);
+
+    return this.submit({
+      chainId: entries[0].chainId,
+      to: executor,
+      data: encodeFunctionData({
+        abi: RELAY_BATCH_EXECUTOR_ABI,
+        functionName: 'executeBatch',
+        args: [entries.map(entry => ({ target: entry.eoa, data: entry.data }))],
+      }),
+      authorizationList: entries.flatMap(entry => (entry.authorization ? [entry.authorization] : [])),
+      gas: gas.toString(),
+      batch: entries.map(entry => ({ eoa: entry.eoa, idempotency: entry.idempotency })),
+    });
+  }
+
+  private async submit(tx: QueuedTransaction): Promise<SubmitResult> {
+    // Checked again here, inside serialize, so concurrent double taps can't both send
+    if (tx.idempotency) {
+      const existing = await this.findIdempotent(tx.idempotency);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const chainConfig = this.getChainConfig(tx.chainId);
+    const { account, publicClient, walletClient } = this.getClients(chainConfig);
+
+    const gas = tx.gas ? BigInt(tx.gas) : await publicClient.estimateGas({
+      account,
+      to: tx.to,
+      data: tx.data,
+      authorizationList: toAuthorizationList(tx.authorizationList),
+    });
+    const fees = await publicClient.estimateFeesPerGas();
+
+    let nonce = await this.nextNonce(publicClient, account.address);
+    let txHash: Hex;
+    try {
+      txHash = await walletClient.sendTransaction({
+        account,
+        chain: chainConfig.chain,
+        to: tx.to,
+        data: tx.data,
+        value: 0n,
+        authorizationList: toAuthorizationList(tx.authorizationList),
+        nonce,
+        gas,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      });
+    } catch (error) {
+      // Our stored nonce drifted (e.g. the key was used elsewhere) - resync once and retry
+      if (!(error instanceof BaseError && error.walk(e => e instanceof NonceTooLowError))) {
+        throw error;
+      }
+      nonce = await this.nextNonce(publicClient, account.address, true);
+      txHash = await walletClient.sendTransaction({
+        account,
+        chain: chainConfig.chain,
+        to: tx.to,
+        data: tx.data,
+        value: 0n,
+        authorizationList: toAuthorizationList(tx.authorizationList),
+        nonce,
+        gas,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      });
+    }
+
+    const pending: PendingTransaction = {
+      ...tx,
+      nonce,
+      gas: gas.toString(),
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      hashes: [txHash],
+      lastSentAt: Date.now(),
+    };
+    await this.state.storage.put({
+      nextNonce: nonce + 1,
+      [`pending:${nonce}`]: pending,
+      [`tx:${txHash}`]: { nonce, status: 'pending' } satisfies TransactionRecord,
+      ...(tx.idempotency && idempotencyRecords(tx.idempotency, { txHash, nonce, createdAt: Date.now() })),
+      ...Object.fromEntries((tx.batch ?? []).flatMap(({ idempotency }, batchIndex) =>
+        Object.entries(idempotencyRecords(idempotency, { txHash, nonce, createdAt: Date.now(), batchIndex }))
+      )),
+    });
+
+    // The alarm may be set for a prune hours away; bring it forward to poll this transaction
+    const alarm = await this.state.storage.getAlarm();
+    if (alarm === null || alarm > Date.now() + CHECK_INTERVAL_MS) {
+      await this.state.storage.setAlarm(Date.now() + CHECK_INTERVAL_MS);
+    }
+    await this.emit({ type: 'submitted', chainId: tx.chainId, nonce, txHash, hash: txHash });
+
+    return { txHash, nonce };
+  }
+
+  private async checkPending(): Promise<void> {
+    const pendingList = await this.state.storage.list<PendingTransaction>({ prefix: 'pending:' });
+
+    for (const [key, pending] of pendingList) {
+      const chainConfig = this.getChainConfig(pending.chainId);
+      const { account, publicClient, walletClient } = this.getClients(chainConfig);
+
+      // Any of the hashes sent for this nonce may be the one that got mined
+      let receipt: Awaited<ReturnType<PublicClient['getTransactionReceipt']>> | undefined;
+      for (const hash of pending.hashes) {
+        receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => undefined);
+        if (receipt) break;
+      }
+
+      if (receipt) {
+        const blockNumber = receipt.blockNumber.toString();
+        if (pending.includedIn !== blockNumber) {
+          // A reorg can move the transaction to another block; subscribers hear about each
+          await this.state.storage.put(key, { ...pending, includedIn: blockNumber } satisfies PendingTransaction);
+          await this.emit({
+            type: 'included',
+            chainId: pending.chainId,
+            nonce: pending.nonce,
+            txHash: pending.hashes[0],
+            hash: receipt.transactionHash,
+            blockNumber,
+          });
+        }
+
+        const head = chainConfig.confirmations > 1 ? await publicClient.getBlockNumber() : receipt.blockNumber;
+        const confirmations = Number(head - receipt.blockNumber) + 1;
+        if (confirmations < chainConfig.confirmations) {
+          continue;
+        }
+
+        const record: TransactionRecord = {
+          nonce: pending.nonce,
+          status: receipt.status === 'success' ? 'confirmed' : 'failed',
+          minedHash: receipt.transactionHash,
+          blockNumber,
+          gasUsed: receipt.gasUsed.toString(),
+        };
+
+        // Each call in a batch succeeds or fails on its own, as reported by CallExecuted
+        if (pending.batch) {
+          const batchResults = pending.batch.map(() => false);
+          if (receipt.status === 'success') {
+            const events = parseEventLogs({ abi: RELAY_BATCH_EXECUTOR_ABI, eventName: 'CallExecuted', logs: receipt.logs });
+            for (const event of events) {
+              if (event.address.toLowerCase() === pending.to.toLowerCase() && event.args.success) {
+                batchResults[Number(event.args.index)] = true;
+              }
+            }
+          }
+          record.batchResults = batchResults;
+        }
+        const records: Record<string, TransactionRecord> = {};
+        for (const hash of pending.hashes) {
+          records[`tx:${hash}`] = record;
+        }
+        // Everything kept for this nonce goes once duplicates and subscribers no longer need it
+        const idempotencyKeys = [pending.idempotency, ...(pending.batch ?? []).map(member => member.idempotency)]
+          .flatMap(idempotency => idempotency?.keys.map(idemKey => `idem:${idemKey}`) ?? []);
+        await this.state.storage.put(records);
+        await this.state.storage.put(pruneKey(Date.now() + RECORD_TTL_MS, pending.nonce), {
+          keys: [...Object.keys(records), `events:${pending.nonce}`, ...idempotencyKeys],
+        } satisfies PruneRecord);
+        await this.state.storage.delete(key);
+        await this.emit({
+          type: record.status as 'confirmed' | 'failed',
+          chainId: pending.chainId,
+          nonce: pending.nonce,
+          txHash: pending.hashes[0],
+          hash: receipt.transactionHash,
+          blockNumber,
+          gasUsed: record.gasUsed,
+          confirmations,
+          batchResults: record.batchResults,
+        });
+
+        // OP-stack receipts also carry the L1 data fee the relayer paid
+        const l1Fee = (receipt as { l1Fee?: bigint | null }).l1Fee ?? 0n;
+        await recordRelayOutcome(this.env.AUDIT_DB, pending.hashes, {
+          status: record.status as 'confirmed' | 'failed',
+          minedHash: receipt.transactionHash,
+          gasUsed: receipt.gasUsed.toString(),
+          gasCost: (receipt.gasUsed * receipt.effectiveGasPrice + l1Fee).toString(),
+          blockNumber,
+          batchResults: record.batchResults,
+        }).catch(error => {
+          if (this.env.ENVIRONMENT !== 'production') {
+            // eslint-disable-next-line no-console
+            console.error(`Failed to record outcome for nonce ${pending.nonce}:`, error);
+          }
+        });
+        continue;
+      }
+
+      const replacements = pending.hashes.length - 1;
+      if (Date.now() - pending.lastSentAt < STUCK_AFTER_MS || replacements >= MAX_REPLACEMENTS) {
+        continue;
+      }
+
+      // Stuck - re-send the same nonce with bumped fees
+      const bump = (value: string): bigint => (BigInt(value) * (100n + FEE_BUMP_PERCENT)) / 100n;
+      const maxFeePerGas = bump(pending.maxFeePerGas);
+      const maxPriorityFeePerGas = bump(pending.maxPriorityFeePerGas);
+
+      try {
+        const replacementHash = await walletClient.sendTransaction({
+          account,
+          chain: chainConfig.chain,
+          to: pending.to,
+          data: pending.data,
+          value: 0n,
+          authorizationList: toAuthorizationList(pending.authorizationList),
+          nonce: pending.nonce,
+          gas: BigInt(pending.gas),
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        });
+
+        await this.state.storage.put({
+          [key]: {
+            ...pending,
+            maxFeePerGas: maxFeePerGas.toString(),
+            maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+            hashes: [...pending.hashes, replacementHash],
+            lastSentAt: Date.now(),
+          } satisfies PendingTransaction,
+          [`tx:${replacementHash}`]: { nonce: pending.nonce, status: 'pending' } satisfies TransactionRecord,
+        });
+        await this.emit({
+          type: 'replaced',
+          chainId: pending.chainId,
+          nonce: pending.nonce,
+          txHash: pending.hashes[0],
+          hash: replacementHash,
+        });
+      } catch (error) {
+        // A nonce error here means one of the earlier hashes was mined; the next check picks it up
+        if (this.env.ENVIRONMENT !== 'production') {
+          // eslint-disable-next-line no-console
+          console.error(`Failed to replace transaction with nonce ${pending.nonce}:`, error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { corsHeadersFor, isOriginAllowed, loadCorsConfig, type CorsConfig } from './cors';
+import { RelayError } from './errors';
+import type { Env, RelayResponse } from './types';
+
+export interface RouteContext {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext; // For work that should outlive the response, e.g. audit writes
+  url: URL;
+  params: Record<string, string>; // Values of `:name` path segments
+}
+
+export type RouteHandler = (context: RouteContext) => Promise<Response>;
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: RouteHandler;
+}
+
+// Helper to build a JSON response (the router adds CORS headers)
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+// Helper to read a JSON request body, failing with INVALID_JSON
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new RelayError('INVALID_JSON', 'Request body must be valid JSON');
+  }
+}
+
+// Helper to build a structured failure response
+export function errorResponse(error: RelayError): Response {
+  const body: RelayResponse = {
+    success: false,
+    error: error.message,
+    code: error.code,
+    details: error.details,
+  };
+  return jsonResponse(body, error.status, error.headers);
+}
+
+// Helper to turn an unexpected (usually viem) error into a 500 response
+function internalErrorResponse(error: unknown): Response {
+  const err = error as Error & {
+    cause?: unknown;
+    details?: unknown;
+    shortMessage?: string;
+    metaMessages?: unknown;
+  };
+
+  return errorResponse(
+    new RelayError('INTERNAL_ERROR', err.shortMessage || err.message || 'Internal error', {
+      status: 500,
+      details: {
+        message: err.message || 'Unknown error',
+        cause: err.cause,
+        details: err.details,
+        shortMessage: err.shortMessage,
+        metaMessages: err.metaMessages,
+      },
+    })
+  );
+}
+
+/**
+ * Minimal method + path router. Paths are matched segment by segment and
+ * `:name` segments are captured into `params`. Requests from origins outside
+ * the CORS allowlist are refused, and only allowlisted origins get CORS headers.
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  get(path: string, handler: RouteHandler): this {
+    return this.add('GET', path, handler);
+  }
+
+  post(path: string, handler: RouteHandler): this {
+    return this.add('POST', path, handler);
+  }
+
+  private add(method: string, path: string, handler: RouteHandler): this {
+    this.routes.push({ method, segments: path.split('/').filter(Boolean), handler });
+    return this;
+  }
+
+  private match(route: Route, segments: string[]): Record<string, string> | null {
+    if (route.segments.length !== segments.length) {
+      return null;
+    }
+    const params: Record<string, string> = {};
+    for (let i = 0; i < segments.length; i++) {
+      if (route.segments[i].startsWith(':')) {
+        params[route.segments[i].slice(1)] = decodeURIComponent(segments[i]);
+      } else if (route.segments[i] !== segments[i]) {
+        return null;
+      }
+    }
+    return params;
+  }
+
+  async handle(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const cors = loadCorsConfig(env);
+    const response = await this.dispatch(request, env, ctx, cors);
+    for (const [name, value] of Object.entries(corsHeadersFor(request, cors))) {
+      response.headers.set(name, value);
+    }
+    return response;
+  }
+
+  private async dispatch(request: Request, env: Env, ctx: ExecutionContext, cors: CorsConfig): Promise<Response> {
+    const origin = request.headers.get('Origin');
+    if (origin && !isOriginAllowed(cors, origin)) {
+      return errorResponse(new RelayError('ORIGIN_NOT_ALLOWED', 'Origin not allowed', {
+        status: 403,
+        details: `${origin} is not an allowed origin`,
+      }));
+    }
+
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { status: 204 });
+    }
+
+    const url = new URL(request.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    let pathMatched = false;
+    for (const route of this.routes) {
+      const params = this.match(route, segments);
+      if (!params) {
+        continue;
+      }
+      pathMatched = true;
+      if (route.method !== request.method) {
+        continue;
+      }
+
+      try {
+        return await route.handler({ request, env, ctx, url, params });
+      } catch (error) {
+        if (error instanceof RelayError) {
+          return errorResponse(error);
+        }
+        if (env.ENVIRONMENT !== 'production') {
+          // eslint-disable-next-line no-console
+          console.error(`${request.method} ${url.pathname} error:`, error);
+        }
+        return internalErrorResponse(error);
+      }
+    }
+
+    return pathMatched
+      ? errorResponse(new RelayError('METHOD_NOT_ALLOWED', 'Method not allowed', {
+        status: 405,
+        details: `${request.method} is not supported on ${url.pathname}`,
+      }))
+      : errorResponse(new RelayError('NOT_FOUND', 'Not found', {
+        status: 404,
+        details: `No route for ${url.pathname}`,
+      }));
+  }
+}
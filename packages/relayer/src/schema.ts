@@ -0,0 +1,312 @@
+import type { Address, Hex } from 'viem';
+import { MAX_AUDIT_PAGE_SIZE, type AuditFilters } from './audit';
+import { RelayError } from './errors';
+import type { RelayIntent } from './intent';
+import type { QueuedAuthorization } from './relayQueue';
+import type { RelayOperation } from './types';
+
+// Upper bound on choices per request, independent of each chain's approved list
+export const MAX_CHOICES_PER_REQUEST = 32;
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const SIGNATURE_PATTERN = /^0x[0-9a-fA-F]{130}$/;
+const DECIMAL_PATTERN = /^(0|[1-9][0-9]*)$/;
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+const AUDIT_STATUSES = ['rejected', 'dry_run', 'duplicate', 'pending', 'confirmed', 'failed'];
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+// Relay request fields after validation, with numeric fields converted
+interface ParsedRelayFields {
+  operation: RelayOperation;
+  chainId: number; // From the authorization or the intent
+  choiceIds: bigint[];
+  amounts: bigint[];
+  reveal?: { salt: Hex }; // Opens the stored commitment for authorization relays
+  dryRun: boolean;
+}
+
+// What the EOA signed: a fresh EIP-7702 authorization, or an intent once it is delegated
+export type RelaySigned =
+  | { authorization: QueuedAuthorization; intent?: undefined }
+  | { intent: RelayIntent; authorization?: undefined };
+
+// Relay request after validation; exactly one of authorization or intent is set
+export type ParsedRelayRequest = ParsedRelayFields & RelaySigned;
+
+// POST /v1/commitments body after validation
+export interface ParsedCommitmentRequest {
+  eoa: Address;
+  chainId: number;
+  nonce: number;
+  commitment: Hex;
+  expiresAt: number;
+  signature: Hex;
+}
+
+// POST /v1/faucet body after validation
+export interface ParsedFaucetRequest {
+  address: Address;
+  chainId: number;
+}
+
+// GET /v1/relay/:txHash/events parameters after validation
+export interface ParsedRelayEventsQuery {
+  txHash: Hex;
+  chainId?: number; // Optional when the relayer serves a single chain
+  batchIndex?: number;
+  lastEventId?: number; // From the Last-Event-ID header EventSource sends on reconnect
+}
+
+// Helper to fail validation with the offending field
+function invalid(field: string, message: string): never {
+  throw new RelayError('INVALID_REQUEST', `Invalid ${field}`, { details: { field, message } });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseAddress(value: unknown, field: string): Address {
+  if (typeof value !== 'string' || !ADDRESS_PATTERN.test(value)) {
+    invalid(field, 'must be a 20-byte 0x-prefixed hex address');
+  }
+  return value as Address;
+}
+
+function parseHex(value: unknown, field: string, pattern: RegExp, description: string): Hex {
+  if (typeof value !== 'string' || !pattern.test(value)) {
+    invalid(field, `must be ${description}`);
+  }
+  return value as Hex;
+}
+
+// Safe integers given as a JSON number or a decimal string
+function parseSafeInteger(value: unknown, field: string): number {
+  const parsed = typeof value === 'string' && DECIMAL_PATTERN.test(value) ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isSafeInteger(parsed) || parsed < 0) {
+    invalid(field, 'must be a non-negative integer');
+  }
+  return parsed;
+}
+
+function parseUint256(value: unknown, field: string): bigint {
+  if (typeof value !== 'string' || !DECIMAL_PATTERN.test(value) || value.length > 78) {
+    invalid(field, 'must be a decimal uint256 string');
+  }
+  const parsed = BigInt(value);
+  if (parsed > MAX_UINT256) {
+    invalid(field, 'must be a decimal uint256 string');
+  }
+  return parsed;
+}
+
+function parseUint256Array(value: unknown, field: string): bigint[] {
+  if (!Array.isArray(value)) {
+    invalid(field, 'must be an array of decimal uint256 strings');
+  }
+  if (value.length === 0 || value.length > MAX_CHOICES_PER_REQUEST) {
+    invalid(field, `must have between 1 and ${MAX_CHOICES_PER_REQUEST} entries`);
+  }
+  return value.map((item, i) => parseUint256(item, `${field}[${i}]`));
+}
+
+function parseAuthorization(value: unknown): QueuedAuthorization {
+  if (!isObject(value)) {
+    invalid('authorization', 'must be an object');
+  }
+  if (value.yParity !== 0 && value.yParity !== 1) {
+    invalid('authorization.yParity', 'must be 0 or 1');
+  }
+  return {
+    address: parseAddress(value.address, 'authorization.address'),
+    chainId: parseSafeInteger(value.chainId, 'authorization.chainId'),
+    nonce: parseSafeInteger(value.nonce, 'authorization.nonce'),
+    r: parseHex(value.r, 'authorization.r', BYTES32_PATTERN, '32 bytes of 0x-prefixed hex'),
+    s: parseHex(value.s, 'authorization.s', BYTES32_PATTERN, '32 bytes of 0x-prefixed hex'),
+    yParity: value.yParity,
+  };
+}
+
+function parseIntent(value: unknown): RelayIntent {
+  if (!isObject(value)) {
+    invalid('intent', 'must be an object');
+  }
+  return {
+    eoa: parseAddress(value.eoa, 'intent.eoa'),
+    chainId: parseSafeInteger(value.chainId, 'intent.chainId'),
+    deadline: parseSafeInteger(value.deadline, 'intent.deadline'),
+    signature: parseHex(value.signature, 'intent.signature', SIGNATURE_PATTERN, '65 bytes of 0x-prefixed hex'),
+  };
+}
+
+/**
+ * Validate a POST /v1/relay body against the request schema.
+ * Throws a RelayError with code INVALID_REQUEST naming the first bad field.
+ */
+export function parseRelayRequest(body: unknown): ParsedRelayRequest {
+  if (!isObject(body)) {
+    invalid('body', 'must be a JSON object');
+  }
+
+  const operation = body.operation ?? 'stake';
+  if (operation !== 'stake' && operation !== 'unstake') {
+    invalid('operation', "must be 'stake' or 'unstake'");
+  }
+
+  if ((body.authorization === undefined) === (body.intent === undefined)) {
+    invalid('authorization', 'exactly one of authorization or intent is required');
+  }
+  const signed: RelaySigned = body.authorization !== undefined
+    ? { authorization: parseAuthorization(body.authorization) }
+    : { intent: parseIntent(body.intent) };
+
+  const choiceIds = parseUint256Array(body.choiceIds, 'choiceIds');
+  const amounts = parseUint256Array(body.amounts, 'amounts');
+  if (choiceIds.length !== amounts.length) {
+    invalid('amounts', `length (${amounts.length}) must match choiceIds length (${choiceIds.length})`);
+  }
+  amounts.forEach((amount, i) => {
+    if (amount === 0n) {
+      invalid(`amounts[${i}]`, 'must be greater than 0');
+    }
+  });
+
+  let reveal: { salt: Hex } | undefined;
+  if (body.reveal !== undefined) {
+    if (!isObject(body.reveal)) {
+      invalid('reveal', 'must be an object');
+    }
+    reveal = { salt: parseHex(body.reveal.salt, 'reveal.salt', BYTES32_PATTERN, '32 bytes of 0x-prefixed hex') };
+  }
+
+  if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+    invalid('dryRun', 'must be a boolean');
+  }
+
+  return {
+    operation,
+    chainId: signed.authorization ? signed.authorization.chainId : signed.intent.chainId,
+    ...signed,
+    choiceIds,
+    amounts,
+    reveal,
+    dryRun: body.dryRun === true,
+  };
+}
+
+/**
+ * Validate a POST /v1/commitments body.
+ * Throws a RelayError with code INVALID_REQUEST naming the first bad field.
+ */
+export function parseCommitmentRequest(body: unknown): ParsedCommitmentRequest {
+  if (!isObject(body)) {
+    invalid('body', 'must be a JSON object');
+  }
+  return {
+    eoa: parseAddress(body.eoa, 'eoa'),
+    chainId: parseSafeInteger(body.chainId, 'chainId'),
+    nonce: parseSafeInteger(body.nonce, 'nonce'),
+    commitment: parseHex(body.commitment, 'commitment', BYTES32_PATTERN, '32 bytes of 0x-prefixed hex'),
+    expiresAt: parseSafeInteger(body.expiresAt, 'expiresAt'),
+    signature: parseHex(body.signature, 'signature', SIGNATURE_PATTERN, '65 bytes of 0x-prefixed hex'),
+  };
+}
+
+/**
+ * Validate a POST /v1/faucet body.
+ * Throws a RelayError with code INVALID_REQUEST naming the first bad field.
+ */
+export function parseFaucetRequest(body: unknown): ParsedFaucetRequest {
+  if (!isObject(body)) {
+    invalid('body', 'must be a JSON object');
+  }
+  return {
+    address: parseAddress(body.address, 'address'),
+    chainId: parseSafeInteger(body.chainId, 'chainId'),
+  };
+}
+
+/**
+ * Validate an optional Idempotency-Key header value.
+ * Throws a RelayError with code INVALID_REQUEST when it is malformed.
+ */
+export function parseIdempotencyKey(value: string | null): string | undefined {
+  if (value === null) {
+    return undefined;
+  }
+  if (!IDEMPOTENCY_KEY_PATTERN.test(value)) {
+    invalid('Idempotency-Key', 'must be 1-128 characters of A-Z, a-z, 0-9, ".", "_", ":" or "-"');
+  }
+  return value;
+}
+
+/**
+ * Validate the path, query string and Last-Event-ID header of the relay events stream.
+ * Throws a RelayError with code INVALID_REQUEST naming the first bad parameter.
+ */
+export function parseRelayEventsQuery(
+  txHash: string,
+  params: URLSearchParams,
+  lastEventId: string | null
+): ParsedRelayEventsQuery {
+  const chainId = params.get('chainId');
+  const batchIndex = params.get('batchIndex');
+  return {
+    txHash: parseHex(txHash, 'txHash', BYTES32_PATTERN, '32 bytes of 0x-prefixed hex'),
+    chainId: chainId !== null ? parseSafeInteger(chainId, 'chainId') : undefined,
+    batchIndex: batchIndex !== null ? parseSafeInteger(batchIndex, 'batchIndex') : undefined,
+    lastEventId: lastEventId !== null ? parseSafeInteger(lastEventId, 'Last-Event-ID') : undefined,
+  };
+}
+
+// Timestamps given as Unix milliseconds or an ISO 8601 date
+function parseTimestamp(value: string, field: string): number {
+  const parsed = DECIMAL_PATTERN.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isSafeInteger(parsed)) {
+    invalid(field, 'must be Unix milliseconds or an ISO 8601 date');
+  }
+  return parsed;
+}
+
+/**
+ * Validate the query string of the admin audit endpoints.
+ * Throws a RelayError with code INVALID_REQUEST naming the first bad parameter.
+ */
+export function parseAuditQuery(params: URLSearchParams): { filters: AuditFilters; limit: number; cursor?: number } {
+  const filters: AuditFilters = {};
+  const eoa = params.get('eoa');
+  const chainId = params.get('chainId');
+  const status = params.get('status');
+  const errorCode = params.get('errorCode');
+  const txHash = params.get('txHash');
+  const from = params.get('from');
+  const to = params.get('to');
+  const limit = params.get('limit');
+  const cursor = params.get('cursor');
+
+  if (eoa !== null) filters.eoa = parseAddress(eoa, 'eoa');
+  if (chainId !== null) filters.chainId = parseSafeInteger(chainId, 'chainId');
+  if (status !== null) {
+    if (!AUDIT_STATUSES.includes(status)) {
+      invalid('status', `must be one of ${AUDIT_STATUSES.join(', ')}`);
+    }
+    filters.status = status;
+  }
+  if (errorCode !== null) filters.errorCode = errorCode;
+  if (txHash !== null) filters.txHash = parseHex(txHash, 'txHash', BYTES32_PATTERN, '32 bytes of 0x-prefixed hex');
+  if (from !== null) filters.from = parseTimestamp(from, 'from');
+  if (to !== null) filters.to = parseTimestamp(to, 'to');
+
+  const pageSize = limit !== null ? parseSafeInteger(limit, 'limit') : DEFAULT_AUDIT_PAGE_SIZE;
+  if (pageSize < 1 || pageSize > MAX_AUDIT_PAGE_SIZE) {
+    invalid('limit', `must be between 1 and ${MAX_AUDIT_PAGE_SIZE}`);
+  }
+
+  return {
+    filters,
+    limit: pageSize,
+    cursor: cursor !== null ? parseSafeInteger(cursor, 'cursor') : undefined,
+  };
+}
@@ -0,0 +1,147 @@
+import {
+  formatTransactionRequest,
+  isAddress,
+  numberToHex,
+  parseTransaction,
+  recoverTransactionAddress,
+  type Address,
+  type Hex,
+  type LocalAccount,
+  type TransactionRequest,
+  type TransactionSerializable,
+  type TransactionSerialized,
+} from 'viem';
+import { privateKeyToAccount, toAccount } from 'viem/accounts';
+import type { Env } from './types';
+
+// Give up on a remote signer call that takes longer than this
+const SIGNER_TIMEOUT_MS = 10_000;
+
+export type SignerKind = 'local' | 'remote';
+
+/**
+ * Where the relayer's gas-paying key lives: a PRIVATE_KEY secret in the
+ * worker, or a web3signer-style JSON-RPC endpoint that signs for SIGNER_ADDRESS.
+ */
+type SignerConfig =
+  | { kind: 'local'; privateKey: Hex }
+  | { kind: 'remote'; url: string; address: Address; authToken?: string };
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// Helper to read the signer settings, failing loudly on a half-configured remote signer
+function loadSignerConfig(env: Env): SignerConfig {
+  if (env.SIGNER_URL) {
+    if (!env.SIGNER_ADDRESS || !isAddress(env.SIGNER_ADDRESS)) {
+      throw new Error('Invalid signer configuration: SIGNER_ADDRESS must be set to the remote key\'s address');
+    }
+    if (env.PRIVATE_KEY) {
+      throw new Error('Invalid signer configuration: set either PRIVATE_KEY or SIGNER_URL, not both');
+    }
+    return { kind: 'remote', url: env.SIGNER_URL, address: env.SIGNER_ADDRESS, authToken: env.SIGNER_AUTH_TOKEN };
+  }
+  if (!env.PRIVATE_KEY) {
+    throw new Error('Invalid signer configuration: set PRIVATE_KEY or SIGNER_URL');
+  }
+  return { kind: 'local', privateKey: env.PRIVATE_KEY as Hex };
+}
+
+// Helper to make one JSON-RPC call to the remote signer
+async function callSigner<T>(config: Extract<SignerConfig, { kind: 'remote' }>, method: string, params: unknown[]): Promise<T> {
+  const response = await fetch(config.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.authToken && { Authorization: `Bearer ${config.authToken}` }),
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    signal: AbortSignal.timeout(SIGNER_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Remote signer ${method} failed: HTTP ${response.status}`);
+  }
+  const body = await response.json() as JsonRpcResponse<T>;
+  if (body.error || body.result === undefined) {
+    throw new Error(`Remote signer ${method} failed: ${body.error?.message ?? 'empty result'}`);
+  }
+  return body.result;
+}
+
+/**
+ * Sign a transaction with eth_signTransaction and check the signer returned
+ * what was asked for, signed by the expected key, before it is broadcast.
+ */
+async function signRemotely(
+  config: Extract<SignerConfig, { kind: 'remote' }>,
+  transaction: TransactionSerializable
+): Promise<Hex> {
+  const request = {
+    ...formatTransactionRequest({ ...transaction, from: config.address } as TransactionRequest),
+    chainId: numberToHex(transaction.chainId ?? 0),
+  };
+  const signed = await callSigner<Hex>(config, 'eth_signTransaction', [request]);
+
+  const parsed = parseTransaction(signed);
+  const matches =
+    parsed.chainId === transaction.chainId &&
+    parsed.nonce === transaction.nonce &&
+    parsed.to?.toLowerCase() === transaction.to?.toLowerCase() &&
+    (parsed.data ?? '0x') === (transaction.data ?? '0x') &&
+    (parsed.authorizationList?.length ?? 0) === (transaction.authorizationList?.length ?? 0);
+  if (!matches) {
+    throw new Error('Remote signer returned a transaction that differs from the request');
+  }
+  const signer = await recoverTransactionAddress({ serializedTransaction: signed as TransactionSerialized });
+  if (signer.toLowerCase() !== config.address.toLowerCase()) {
+    throw new Error(`Remote signer signed with ${signer}, expected ${config.address}`);
+  }
+  return signed;
+}
+
+/**
+ * The relayer's gas-paying account. With a remote signer only transaction
+ * signing is supported; the worker never needs to sign anything else.
+ */
+export function loadRelayerAccount(env: Env): LocalAccount {
+  const config = loadSignerConfig(env);
+  if (config.kind === 'local') {
+    return privateKeyToAccount(config.privateKey);
+  }
+
+  const unsupported = (what: string) => (): Promise<never> =>
+    Promise.reject(new Error(`The remote signer is only used for transactions, not ${what}`));
+  return toAccount({
+    address: config.address,
+    signTransaction: transaction => signRemotely(config, transaction),
+    signMessage: unsupported('messages'),
+    signTypedData: unsupported('typed data'),
+  });
+}
+
+// Address of the relayer's gas-paying account
+export function relayerAddress(env: Env): Address {
+  return loadRelayerAccount(env).address;
+}
+
+/**
+ * Check the signer can be used: a remote signer must answer eth_accounts
+ * with SIGNER_ADDRESS among its keys.
+ */
+export async function checkSigner(env: Env): Promise<{ kind: SignerKind; reachable: boolean; error?: string }> {
+  const config = loadSignerConfig(env);
+  if (config.kind === 'local') {
+    return { kind: 'local', reachable: true };
+  }
+  try {
+    const accounts = await callSigner<Address[]>(config, 'eth_accounts', []);
+    if (!accounts.some(account => account.toLowerCase() === config.address.toLowerCase())) {
+      return { kind: 'remote', reachable: false, error: `Signer does not hold a key for ${config.address}` };
+    }
+    return { kind: 'remote', reachable: true };
+  } catch (error) {
+    return { kind: 'remote', reachable: false, error: (error as Error).message };
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  BaseError,
+  decodeErrorResult,
+  RawContractError,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import { RELAY_ERRORS_ABI } from './abis';
+import { toAuthorizationList, type QueuedAuthorization } from './relayQueue';
+
+// Stable codes the frontend can map to user-facing messages
+export type RevertCode =
+  | 'ONLY_RELAYER'
+  | 'AMOUNT_TOO_HIGH'
+  | 'LENGTH_MISMATCH'
+  | 'INSUFFICIENT_STAKE_BALANCE'
+  | 'INSUFFICIENT_TOKEN_BALANCE'
+  | 'INSUFFICIENT_TOKEN_ALLOWANCE'
+  | 'TOKEN_TRANSFER_FAILED'
+  | 'EXECUTION_REVERTED'
+  | 'SIMULATION_FAILED';
+
+const ERROR_CODES: Record<string, { code: RevertCode; message: string }> = {
+  OnlyRelayer: { code: 'ONLY_RELAYER', message: 'StakerWallet rejected the relayer as caller' },
+  AmountTooHigh: { code: 'AMOUNT_TOO_HIGH', message: 'Total amount exceeds the StakerWallet maxStakePerTx' },
+  LengthMismatch: { code: 'LENGTH_MISMATCH', message: 'choiceIds and amounts have different lengths' },
+  ERC6909InsufficientBalance: { code: 'INSUFFICIENT_STAKE_BALANCE', message: 'EOA does not hold enough stake on a choice' },
+  ERC20InsufficientBalance: { code: 'INSUFFICIENT_TOKEN_BALANCE', message: 'EOA does not hold enough staking tokens' },
+  ERC20InsufficientAllowance: { code: 'INSUFFICIENT_TOKEN_ALLOWANCE', message: 'Staking token allowance is too low' },
+  SafeERC20FailedOperation: { code: 'TOKEN_TRANSFER_FAILED', message: 'Staking token transfer failed' },
+};
+
+export interface DecodedRevert {
+  code: RevertCode;
+  message: string;
+  errorName?: string;
+  args?: string[];
+}
+
+export type SimulationResult =
+  | { ok: true; gasEstimate: bigint }
+  | { ok: false; revert: DecodedRevert };
+
+// Helper to pull raw revert data out of a viem error chain
+function findRevertData(error: unknown): Hex | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+  const raw = error.walk(e => e instanceof RawContractError) as RawContractError | null;
+  const data = typeof raw?.data === 'object' ? raw.data.data : raw?.data;
+  return data && data !== '0x' ? data : undefined;
+}
+
+/**
+ * Decode a failed call against the StakerWallet, StakeChoicesERC6909 and
+ * SafeERC20 error ABIs into a stable error code.
+ */
+export function decodeRevert(error: unknown): DecodedRevert {
+  const data = findRevertData(error);
+  if (!data) {
+    const err = error as Error & { shortMessage?: string };
+    return {
+      code: 'SIMULATION_FAILED',
+      message: err.shortMessage || err.message || 'Simulation failed',
+    };
+  }
+
+  try {
+    const decoded = decodeErrorResult({ abi: RELAY_ERRORS_ABI, data });
+    // errorName also covers the built-in Error(string) and Panic(uint256)
+    const errorName: string = decoded.errorName;
+    const args = decoded.args?.map(arg => String(arg));
+    const known = ERROR_CODES[errorName];
+    if (known) {
+      return { ...known, errorName, args };
+    }
+    return {
+      code: 'EXECUTION_REVERTED',
+      message: errorName === 'Error' && args?.[0] ? args[0] : `Execution reverted with ${errorName}`,
+      errorName,
+      args,
+    };
+  } catch {
+    return {
+      code: 'EXECUTION_REVERTED',
+      message: `Execution reverted with unknown error data ${data.slice(0, 10)}`,
+    };
+  }
+}
+
+/**
+ * Simulate the type-4 relay transaction with its authorizationList before
+ * broadcasting, returning a gas estimate or the decoded revert.
+ */
+export async function simulateRelay(
+  publicClient: PublicClient,
+  tx: {
+    account: Address;
+    to: Address;
+    data: Hex;
+    authorizationList: QueuedAuthorization[];
+  }
+): Promise<SimulationResult> {
+  const request = { ...tx, authorizationList: toAuthorizationList(tx.authorizationList) };
+  try {
+    await publicClient.call(request);
+    const gasEstimate = await publicClient.estimateGas(request);
+    return { ok: true, gasEstimate };
+  } catch (error) {
+    return { ok: false, revert: decodeRevert(error) };
+  }
+}
@@ -0,0 +1,49 @@
+import { formatEther, type Address, type PublicClient } from 'viem';
+import { STAKER_WALLET_ABI, STAKING_TOKEN_ABI } from './abis';
+import { cached } from './cache';
+import { RelayError } from './errors';
+
+// ERC20 the StakerWallet stakes (an immutable, so cached for good)
+export function getStakingTokenAddress(publicClient: PublicClient, stakerWallet: Address): Promise<Address> {
+  return cached(`stakingToken:${publicClient.chain?.id}:${stakerWallet}`, Infinity, () =>
+    publicClient.readContract({
+      address: stakerWallet,
+      abi: STAKER_WALLET_ABI,
+      functionName: 'tokenAddress',
+    })
+  );
+}
+
+/**
+ * Fail with INSUFFICIENT_BALANCE and the shortfall when the EOA holds less of
+ * the staking token than it wants to stake. No allowance check is needed: the
+ * StakerWallet approves StakeChoices for the exact total inside the same call.
+ */
+export async function assertTokenBalance(
+  publicClient: PublicClient,
+  stakerWallet: Address,
+  eoa: Address,
+  required: bigint
+): Promise<void> {
+  const token = await getStakingTokenAddress(publicClient, stakerWallet);
+  const balance = await publicClient.readContract({
+    address: token,
+    abi: STAKING_TOKEN_ABI,
+    functionName: 'balanceOf',
+    args: [eoa],
+  });
+
+  if (balance < required) {
+    const shortfall = required - balance;
+    throw new RelayError('INSUFFICIENT_BALANCE', 'Insufficient token balance', {
+      details: {
+        token,
+        eoa,
+        balance: balance.toString(),
+        required: required.toString(),
+        shortfall: shortfall.toString(),
+        message: `EOA ${eoa} needs ${formatEther(shortfall)} more tokens to stake ${formatEther(required)}`,
+      },
+    });
+  }
+}
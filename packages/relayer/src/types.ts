@@ -0,0 +1,20 @@
+export interface Env {
+  PRIVATE_KEY?: string; // Relayer key held by the worker; leave unset when using SIGNER_URL
+  SIGNER_URL?: string; // Remote JSON-RPC signer (eth_signTransaction) holding the relayer key instead
+  SIGNER_ADDRESS?: string; // Address of the remote signer's key, required with SIGNER_URL
+  SIGNER_AUTH_TOKEN?: string; // Optional bearer token for the remote signer
+  CHAIN_CONFIGS: string; // JSON registry of per-chain config keyed by chain ID
+  RPC_URLS?: string; // Optional JSON map of chain ID to RPC URL, overrides CHAIN_CONFIGS
+  ENVIRONMENT?: string; // 'production' tightens defaults such as the CORS origin allowlist
+  CORS?: string; // Optional JSON { origins, methods, headers }, see cors.ts
+  RELAY_QUEUE: DurableObjectNamespace; // One RelayQueue per chain, serializes relayer nonces
+  RATE_LIMITER: DurableObjectNamespace; // One RateLimiter per client IP or EOA
+  RATE_LIMITS?: string; // Optional JSON per-scope limits, see rateLimit.ts
+  WEBHOOKS?: string; // Optional JSON list of { url, events } notified of relay lifecycle events
+  WEBHOOK_SECRET?: string; // Signs webhook bodies (X-Relayer-Signature) when set
+  AUDIT_DB: D1Database; // Audit log of every relay attempt, see migrations/
+  ADMIN_API_KEY?: string; // Bearer token for /v1/admin endpoints, which are disabled without it
+}
+
+// The wire format lives in @tap-stake/sdk, shared with the frontend
+export type { CommitmentRequest, RelayOperation, RelayRequest, RelayResponse } from '@tap-stake/sdk';
@@ -0,0 +1,82 @@
+import { parseJsonVar } from './chains';
+import type { RelayEvent, RelayEventType } from './relayEvents';
+
+// Give up on a webhook endpoint that takes longer than this
+const WEBHOOK_TIMEOUT_MS = 5_000;
+
+// Shape of an entry in the WEBHOOKS JSON var
+interface WebhookInput {
+  url: string;
+  events?: RelayEventType[]; // Defaults to every event
+}
+
+export interface Webhook {
+  url: string;
+  events?: RelayEventType[];
+}
+
+// Load the outbound webhooks from the WEBHOOKS var; production only posts over https
+export function loadWebhooks(env: { WEBHOOKS?: string; ENVIRONMENT?: string }): Webhook[] {
+  const inputs = parseJsonVar<WebhookInput[]>('WEBHOOKS', env.WEBHOOKS) ?? [];
+  const scheme = env.ENVIRONMENT === 'production' ? /^https:\/\// : /^https?:\/\//;
+  return inputs.map(input => {
+    if (typeof input.url !== 'string' || !scheme.test(input.url)) {
+      throw new Error(`Invalid WEBHOOKS configuration: ${input.url} is not an allowed URL`);
+    }
+    return { url: input.url, events: input.events };
+  });
+}
+
+// Helper to sign a webhook body with HMAC-SHA256 so receivers can check it came from us
+async function sign(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * POST a relay event to every webhook subscribed to its type. Delivery is best
+ * effort, one attempt per event; failures are logged and never block the queue.
+ */
+export async function deliverWebhooks(
+  env: { WEBHOOKS?: string; WEBHOOK_SECRET?: string; ENVIRONMENT?: string },
+  event: RelayEvent
+): Promise<void> {
+  const webhooks = loadWebhooks(env).filter(webhook => !webhook.events || webhook.events.includes(event.type));
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (env.WEBHOOK_SECRET) {
+    headers['X-Relayer-Signature'] = `sha256=${await sign(env.WEBHOOK_SECRET, body)}`;
+  }
+
+  await Promise.all(
+    webhooks.map(async webhook => {
+      try {
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+      } catch (error) {
+        if (env.ENVIRONMENT !== 'production') {
+          // eslint-disable-next-line no-console
+          console.error(`Webhook ${webhook.url} failed for ${event.type} ${event.txHash}:`, error);
+        }
+      }
+    })
+  );
+}
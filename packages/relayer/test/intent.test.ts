@@ -0,0 +1,43 @@
+import { delegationDesignator } from '@tap-stake/sdk';
+import type { Address, PublicClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { recoverAuthorizationAddress } from 'viem/experimental';
+import { describe, expect, it } from 'vitest';
+import { assertAuthorizationCurrent } from '../src/intent';
+
+const STAKER_WALLET: Address = '0x1111111111111111111111111111111111111111';
+const card = privateKeyToAccount('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+// Helper to stub the two reads the check makes: the EOA's code and its nonce
+function chainState(state: { delegated: boolean; nonce: number }): PublicClient {
+  return {
+    getCode: async () => (state.delegated ? delegationDesignator(STAKER_WALLET) : undefined),
+    getTransactionCount: async () => state.nonce,
+  } as unknown as PublicClient;
+}
+
+describe('assertAuthorizationCurrent', () => {
+  it('rejects a used authorization replayed against the delegated EOA', async () => {
+    // The authorization the card signed for its first stake, now public on-chain
+    const used = await card.signAuthorization({ contractAddress: STAKER_WALLET, chainId: 11155420, nonce: 0 });
+    const eoa = await recoverAuthorizationAddress({ authorization: used });
+    expect(eoa).toBe(card.address);
+
+    // Landing it delegated the EOA and used up nonce 0
+    const publicClient = chainState({ delegated: true, nonce: 1 });
+    await expect(assertAuthorizationCurrent(publicClient, eoa, used, STAKER_WALLET))
+      .rejects.toMatchObject({ code: 'EOA_ALREADY_DELEGATED' });
+  });
+
+  it('rejects an authorization whose nonce is not the current one', async () => {
+    const publicClient = chainState({ delegated: false, nonce: 3 });
+    await expect(assertAuthorizationCurrent(publicClient, card.address, { nonce: 2 }, STAKER_WALLET))
+      .rejects.toMatchObject({ code: 'STALE_NONCE' });
+  });
+
+  it('accepts the next authorization of an EOA not yet delegated', async () => {
+    const publicClient = chainState({ delegated: false, nonce: 3 });
+    await expect(assertAuthorizationCurrent(publicClient, card.address, { nonce: 3 }, STAKER_WALLET))
+      .resolves.toBeUndefined();
+  });
+});
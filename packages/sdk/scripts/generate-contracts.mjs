@@ -0,0 +1,141 @@
+// Generates src/generated/{deployments,abis}.ts from the contracts package, so the
+// frontend and relayer read addresses and ABIs from the same deploy.
+//
+//   (cd ../contracts && forge build) && npm run generate
+//
+// Deployments come from broadcast/<Script>.s.sol/<chainId>/run-latest.json; when
+// several scripts deployed the same contract on a chain, the newest run wins.
+// ABIs come from the Foundry artifacts in out/ (or FOUNDRY_OUT).
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getAddress, toFunctionSelector, toFunctionSignature } from 'viem';
+
+const sdkRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const contractsRoot = resolve(sdkRoot, '../contracts');
+const broadcastDir = join(contractsRoot, 'broadcast');
+const outDir = resolve(contractsRoot, process.env.FOUNDRY_OUT ?? 'out');
+const generatedDir = join(sdkRoot, 'src/generated');
+
+// Contracts whose ABIs the packages use; each lives in src/<Name>.sol
+const ABI_CONTRACTS = [
+  'CommitmentStore',
+  'RelayBatchExecutor',
+  'StakeChoicesERC6909',
+  'StakeChoicesFactory',
+  'StakerWallet',
+  'TestERC20',
+];
+
+// Factory calls that clone a new session; the clone shows up in additionalContracts
+const SESSION_DEPLOY_FUNCTIONS = ['deployToken(address,string)', 'deployTokenDeterministic(address,string,bytes32)'];
+
+const HEADER = '// Generated by scripts/generate-contracts.mjs from packages/contracts. Do not edit.\n';
+
+// StakeChoicesERC6909 -> STAKE_CHOICES_ERC6909_ABI
+const abiConstName = name => `${name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}_ABI`;
+
+function readRuns() {
+  const runs = [];
+  for (const script of readdirSync(broadcastDir)) {
+    for (const chainId of readdirSync(join(broadcastDir, script))) {
+      const file = join(broadcastDir, script, chainId, 'run-latest.json');
+      if (!/^\d+$/.test(chainId) || !existsSync(file)) continue;
+      runs.push({ script, chainId: Number(chainId), ...JSON.parse(readFileSync(file, 'utf8')) });
+    }
+  }
+  return runs.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function collectDeployments(runs, initCodes) {
+  const chains = new Map();
+  for (const run of runs) {
+    const chain = chains.get(run.chainId) ?? { contracts: {}, sessions: [] };
+    chains.set(run.chainId, chain);
+    const blocks = new Map(run.receipts.map(receipt => [receipt.transactionHash, BigInt(receipt.blockNumber)]));
+
+    for (const tx of run.transactions) {
+      const blockNumber = blocks.get(tx.hash);
+      if (blockNumber === undefined) {
+        throw new Error(`${run.script} on chain ${run.chainId}: no receipt for ${tx.hash}, was the broadcast finished?`);
+      }
+      const deployment = { address: getAddress(tx.contractAddress), blockNumber, transactionHash: tx.hash };
+
+      if (tx.transactionType === 'CREATE' || tx.transactionType === 'CREATE2') {
+        chain.contracts[tx.contractName] = deployment;
+        initCodes.set(`${run.chainId}:${tx.contractName}`, tx.transaction.input);
+      } else if (SESSION_DEPLOY_FUNCTIONS.includes(tx.function)) {
+        const [stakingToken, name] = tx.arguments;
+        chain.sessions.unshift({
+          ...deployment,
+          address: getAddress(tx.additionalContracts[0].address),
+          name,
+          stakingToken: getAddress(stakingToken),
+        });
+      }
+    }
+  }
+  return chains;
+}
+
+function readAbi(name) {
+  const file = join(outDir, `${name}.sol`, `${name}.json`);
+  if (!existsSync(file)) {
+    throw new Error(`No artifact at ${file}, run forge build in packages/contracts first`);
+  }
+  return JSON.parse(readFileSync(file, 'utf8')).abi;
+}
+
+// Helper to print a value as a TS literal, with bigints as bigint literals
+function toSource(value, indent = '') {
+  const inner = `${indent}  `;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => `${inner}${toSource(item, inner)}`).join(',\n')},\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    const key = name => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : toSource(name));
+    return `{\n${entries.map(([name, item]) => `${inner}${key(name)}: ${toSource(item, inner)}`).join(',\n')},\n${indent}}`;
+  }
+  if (typeof value === 'string') return `'${JSON.stringify(value).slice(1, -1).replaceAll('\\"', '"').replaceAll("'", "\\'")}'`;
+  return JSON.stringify(value);
+}
+
+/**
+ * ABI functions the deployed bytecode has no dispatcher entry for. The dispatcher
+ * pushes selectors without leading zero bytes, so those are matched stripped.
+ * A hit means the contract was deployed from older source than out/ was built from.
+ */
+function missingFunctions(abi, initCode) {
+  return abi
+    .filter(item => item.type === 'function')
+    .filter(item => !initCode.includes(toFunctionSelector(item).slice(2).replace(/^(00)+/, '')))
+    .map(item => toFunctionSignature(item));
+}
+
+const initCodes = new Map();
+const chains = collectDeployments(readRuns(), initCodes);
+const manifest = Object.fromEntries(
+  [...chains]
+    .sort(([a], [b]) => a - b)
+    .map(([chainId, chain]) => [chainId, { ...chain, contracts: Object.fromEntries(Object.entries(chain.contracts).sort()) }])
+);
+const abis = ABI_CONTRACTS.map(name => `export const ${abiConstName(name)} = ${toSource(readAbi(name))} as const;\n`);
+
+mkdirSync(generatedDir, { recursive: true });
+writeFileSync(join(generatedDir, 'deployments.ts'), `${HEADER}\nexport const DEPLOYMENTS = ${toSource(manifest)} as const;\n`);
+writeFileSync(join(generatedDir, 'abis.ts'), `${HEADER}\n${abis.join('\n')}`);
+
+for (const [chainId, chain] of chains) {
+  console.log(`chain ${chainId}: ${Object.keys(chain.contracts).join(', ')}; ${chain.sessions.length} session(s)`);
+  for (const name of Object.keys(chain.contracts).filter(name => ABI_CONTRACTS.includes(name))) {
+    const missing = missingFunctions(readAbi(name), initCodes.get(`${chainId}:${name}`));
+    if (missing.length > 0) {
+      console.warn(`  warning: ${name} on chain ${chainId} was deployed without ${missing.join(', ')}; redeploy it`);
+    }
+  }
+}
+console.log(`ABIs: ${ABI_CONTRACTS.join(', ')}`);
@@ -0,0 +1,37 @@
+import type { SignedAuthorization } from 'viem';
+import type { RelayAuthorization } from './types';
+
+/**
+ * Convert a viem SignedAuthorization into its JSON wire format. The nonce is
+ * sent as a decimal string, and a legacy `v` is folded into yParity.
+ */
+export function serializeAuthorization(authorization: SignedAuthorization): RelayAuthorization {
+  const v = authorization.v !== undefined ? Number(authorization.v) : undefined;
+  const yParity = authorization.yParity ?? (v !== undefined && v >= 27 ? v - 27 : v);
+  if (yParity !== 0 && yParity !== 1) {
+    throw new Error('Authorization signature has no valid yParity');
+  }
+  return {
+    address: authorization.address,
+    chainId: authorization.chainId,
+    nonce: authorization.nonce.toString(),
+    r: authorization.r,
+    s: authorization.s,
+    yParity,
+  };
+}
+
+/**
+ * Convert a wire-format authorization back into a viem SignedAuthorization.
+ * Assumes the fields were already validated.
+ */
+export function deserializeAuthorization(authorization: RelayAuthorization): SignedAuthorization {
+  return {
+    address: authorization.address,
+    chainId: Number(authorization.chainId),
+    nonce: Number(authorization.nonce),
+    r: authorization.r,
+    s: authorization.s,
+    yParity: authorization.yParity,
+  };
+}
@@ -0,0 +1,145 @@
+import type { Hex } from 'viem';
+import type {
+  CommitmentRequest,
+  FaucetRequest,
+  RelayErrorCode,
+  RelayRequest,
+  RelayResponse,
+  RelayerConfig,
+} from './types';
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+// Don't sleep longer than this on a Retry-After; the caller is better off seeing the error
+const MAX_RETRY_AFTER_MS = 10_000;
+// Gateway failures and throttling are worth another try; other statuses are the relayer's answer
+const RETRYABLE_STATUSES = [429, 502, 504];
+
+export interface RelayerClientOptions {
+  url: string; // Relayer base URL, e.g. https://relayer.example.com
+  timeoutMs?: number; // Per attempt, default 15s
+  retries?: number; // Extra attempts for requests that are safe to repeat, default 2
+  retryDelayMs?: number; // First backoff delay, doubled per attempt, default 500ms
+  fetch?: typeof fetch;
+}
+
+/**
+ * A failed relayer request. `code` is the relayer's stable error code when
+ * it answered; network failures and timeouts have none.
+ */
+export class RelayerClientError extends Error {
+  status?: number;
+  code?: RelayErrorCode;
+  details?: unknown;
+
+  constructor(message: string, options: { status?: number; code?: RelayErrorCode; details?: unknown; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'RelayerClientError';
+    this.status = options.status;
+    this.code = options.code;
+    this.details = options.details;
+  }
+}
+
+// A successful POST that broadcast a transaction
+export type SubmittedResponse = RelayResponse & { success: true; txHash: Hex };
+
+export interface RelayerClient {
+  url: string;
+  /** POST /v1/relay. Repeats are safe: the relayer returns the transaction it already sent. */
+  relay(request: RelayRequest, options?: { idempotencyKey?: string }): Promise<RelayResponse>;
+  /** POST /v1/commitments. Never retried, a repeat fails with COMMITMENT_EXISTS. */
+  storeCommitment(request: CommitmentRequest): Promise<SubmittedResponse>;
+  /** POST /v1/faucet. Never retried, a repeat fails with FAUCET_COOLDOWN. */
+  claimFaucet(request: FaucetRequest): Promise<SubmittedResponse>;
+  /** GET /v1/config */
+  getConfig(): Promise<RelayerConfig>;
+  /** URL of the SSE stream of a relayer transaction's lifecycle events, for EventSource */
+  eventsUrl(txHash: Hex, options?: { chainId?: number; batchIndex?: number }): string;
+}
+
+// Helper to wait before the next attempt
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Helper to read Retry-After (seconds) as a delay, if it's short enough to wait out
+function retryAfterMs(response: Response): number | undefined {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 && seconds * 1000 <= MAX_RETRY_AFTER_MS ? seconds * 1000 : undefined;
+}
+
+/**
+ * Create a typed client for the relay API. Each attempt times out after
+ * `timeoutMs`. Requests that are safe to repeat are retried with backoff on
+ * network errors, timeouts and gateway or rate-limit responses.
+ */
+export function createRelayerClient(options: RelayerClientOptions): RelayerClient {
+  const url = options.url.replace(/\/+$/, '');
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const fetchFn = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit): Promise<Response> => fetch(input, init));
+
+  const request = async <T>(path: string, init: RequestInit, retry: boolean): Promise<T> => {
+    const attempts = retry ? retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetchFn(`${url}${path}`, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        if (attempt < attempts) {
+          await sleep(retryDelayMs * 2 ** (attempt - 1));
+          continue;
+        }
+        throw new RelayerClientError(timedOut ? `${path} timed out after ${timeoutMs}ms` : `${path} request failed`, {
+          cause: error,
+        });
+      }
+
+      if (attempt < attempts && RETRYABLE_STATUSES.includes(response.status)) {
+        const delay = response.status === 429 ? retryAfterMs(response) : retryDelayMs * 2 ** (attempt - 1);
+        if (delay !== undefined) {
+          await response.body?.cancel();
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      const body = await response.json().catch(() => undefined) as (T & Partial<RelayResponse>) | undefined;
+      if (!response.ok || !body || body.success === false) {
+        throw new RelayerClientError(body?.error ?? `${path} failed with HTTP ${response.status}`, {
+          status: response.status,
+          code: body?.code,
+          details: body?.details,
+        });
+      }
+      return body;
+    }
+  };
+
+  const post = <T>(path: string, payload: unknown, retry: boolean, headers: Record<string, string> = {}): Promise<T> =>
+    request<T>(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+    }, retry);
+
+  return {
+    url,
+    relay: (relayRequest, { idempotencyKey } = {}) =>
+      post('/v1/relay', relayRequest, true, idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+    storeCommitment: commitment => post('/v1/commitments', commitment, false),
+    claimFaucet: faucet => post('/v1/faucet', faucet, false),
+    getConfig: () => request('/v1/config', { method: 'GET' }, true),
+    eventsUrl: (txHash, { chainId, batchIndex } = {}): string => {
+      const params = new URLSearchParams();
+      if (chainId !== undefined) params.set('chainId', chainId.toString());
+      if (batchIndex !== undefined) params.set('batchIndex', batchIndex.toString());
+      const query = params.toString();
+      return `${url}/v1/relay/${txHash}/events${query ? `?${query}` : ''}`;
+    },
+  };
+}
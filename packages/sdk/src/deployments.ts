@@ -0,0 +1,32 @@
+import type { Address, Hex } from 'viem';
+import { DEPLOYMENTS } from './generated/deployments';
+
+// A contract created by a forge broadcast
+export interface ContractDeployment {
+  address: Address;
+  blockNumber: bigint;
+  transactionHash: Hex;
+}
+
+// A StakeChoicesERC6909 clone deployed through StakeChoicesFactory
+export interface SessionDeployment extends ContractDeployment {
+  name: string;
+  stakingToken: Address;
+}
+
+// Everything the broadcasts deployed on one chain, keyed by contract name
+export interface ChainDeployment {
+  contracts: Readonly<Partial<Record<string, ContractDeployment>>>;
+  sessions: readonly SessionDeployment[]; // Newest first
+}
+
+// Also checks the generated manifest against the interfaces above
+const byChainId: Readonly<Record<string, ChainDeployment>> = DEPLOYMENTS;
+
+/**
+ * The deployment for a chain ID only known at runtime. Code that targets one
+ * chain can index DEPLOYMENTS directly and have missing contracts fail type checks.
+ */
+export function getDeployment(chainId: number): ChainDeployment | undefined {
+  return byChainId[chainId];
+}
@@ -0,0 +1,106 @@
+import { concat, encodeAbiParameters, keccak256, type Address, type Hex } from 'viem';
+
+// Intents are only accepted for this long before their deadline
+export const INTENT_MAX_TTL_SECONDS = 600;
+
+// Commitments expire at most this long after they are stored (CommitmentStore.MAX_COMMITMENT_TTL)
+export const COMMITMENT_MAX_TTL_SECONDS = 3600;
+
+// Operation fields every intent and commitment hash covers
+interface OperationParams {
+  eoa: Address;
+  chainId: number;
+  stakerWallet: Address;
+  operation: string;
+  choiceIds: bigint[];
+  amounts: bigint[];
+}
+
+// The operation encoding shared by intents and commitments, followed by their own last field
+const OPERATION_PARAMETERS = [
+  { type: 'address' },
+  { type: 'uint256' },
+  { type: 'address' },
+  { type: 'string' },
+  { type: 'uint256[]' },
+  { type: 'uint256[]' },
+] as const;
+
+// EIP-7702 delegation designator: an EOA's code is 0xef0100 || address
+export function delegationDesignator(contract: Address): Hex {
+  return concat(['0xef0100', contract]);
+}
+
+// Hash the card signs (as a raw EIP-191 message) for an intent
+export function hashRelayIntent(params: OperationParams & { deadline: number }): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [...OPERATION_PARAMETERS, { type: 'uint256' }],
+      [
+        params.eoa,
+        BigInt(params.chainId),
+        params.stakerWallet,
+        params.operation,
+        params.choiceIds,
+        params.amounts,
+        BigInt(params.deadline),
+      ]
+    )
+  );
+}
+
+/**
+ * Commitment to a relay operation, stored in the CommitmentStore under
+ * (eoa, authorization nonce) before the card signs the authorization.
+ * The salt keeps commitments for identical operations distinct.
+ */
+export function hashRelayCommitment(params: OperationParams & { salt: Hex }): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [...OPERATION_PARAMETERS, { type: 'bytes32' }],
+      [
+        params.eoa,
+        BigInt(params.chainId),
+        params.stakerWallet,
+        params.operation,
+        params.choiceIds,
+        params.amounts,
+        params.salt,
+      ]
+    )
+  );
+}
+
+/**
+ * Hash the card signs (as a raw EIP-191 message) so anyone, usually the relayer,
+ * can store its commitment. Same as CommitmentStore.commitmentDigest.
+ */
+export function hashCommitmentApproval(params: {
+  commitmentStore: Address;
+  chainId: number;
+  eoa: Address;
+  nonce: number;
+  commitment: Hex;
+  expiresAt: number;
+}): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: 'address' },
+        { type: 'uint256' },
+        { type: 'address' },
+        { type: 'uint256' },
+        { type: 'bytes32' },
+        { type: 'uint256' },
+      ],
+      [
+        params.commitmentStore,
+        BigInt(params.chainId),
+        params.eoa,
+        BigInt(params.nonce),
+        params.commitment,
+        BigInt(params.expiresAt),
+      ]
+    )
+  );
+}
@@ -0,0 +1,27 @@
+// Generated by scripts/generate-contracts.mjs from packages/contracts. Do not edit.
+
+export const DEPLOYMENTS = {
+  '11155420': {
+    contracts: {
+      StakeChoicesFactory: {
+        address: '0x17FC7698A7065B41007dC270Afa4aa85313E2717',
+        blockNumber: 34321234n,
+        transactionHash: '0x4976bcb085f90798d4c9f1d422de0d7508f85bc71a9f9d6eb6c694b39d995535',
+      },
+      StakerWallet: {
+        address: '0xeb5Ed03C030448270D5671CD4AE79aD124765f26',
+        blockNumber: 34321234n,
+        transactionHash: '0xf9876f2614e53f3f2902ef3dfbc0083b10c40d1dffb58279f444c73bf95e0fc4',
+      },
+    },
+    sessions: [
+      {
+        address: '0x79ed6D4B6d582286944aD6cC18cB7A61Ca5c2199',
+        blockNumber: 34321234n,
+        transactionHash: '0x1459da3bea5aa46a732c465766cb0e80eb60e02b665bffcfa2079cb95735c161',
+        name: 'Test Session',
+        stakingToken: '0xAA2B1999C772cF2B4E5478e4b5C54aE8447ef756',
+      },
+    ],
+  },
+} as const;
@@ -0,0 +1,47 @@
+export { deserializeAuthorization, serializeAuthorization } from './authorization';
+export {
+  createRelayerClient,
+  RelayerClientError,
+  type RelayerClient,
+  type RelayerClientOptions,
+  type SubmittedResponse,
+} from './client';
+export {
+  getDeployment,
+  type ChainDeployment,
+  type ContractDeployment,
+  type SessionDeployment,
+} from './deployments';
+export {
+  COMMITMENT_MAX_TTL_SECONDS,
+  delegationDesignator,
+  hashCommitmentApproval,
+  hashRelayCommitment,
+  hashRelayIntent,
+  INTENT_MAX_TTL_SECONDS,
+} from './encoding';
+export { DEPLOYMENTS } from './generated/deployments';
+export { LOG_BLOCK_RANGE, logPages, type LogPage } from './logs';
+export {
+  COMMITMENT_STORE_ABI,
+  RELAY_BATCH_EXECUTOR_ABI,
+  STAKE_CHOICES_ERC6909_ABI,
+  STAKE_CHOICES_FACTORY_ABI,
+  STAKER_WALLET_ABI,
+  TEST_ERC20_ABI,
+} from './generated/abis';
+export type {
+  CommitmentRequest,
+  FaucetRequest,
+  RelayAuthorization,
+  RelayErrorCode,
+  RelayEvent,
+  RelayEventType,
+  RelayIntent,
+  RelayOperation,
+  RelayRequest,
+  RelayResponse,
+  RelayStatus,
+  RelayerChainConfig,
+  RelayerConfig,
+} from './types';
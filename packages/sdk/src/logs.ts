@@ -0,0 +1,21 @@
+// Blocks per eth_getLogs request; public RPCs reject ranges much wider than this
+export const LOG_BLOCK_RANGE = 10_000n;
+
+// One eth_getLogs request's inclusive block range
+export interface LogPage {
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+// Split an inclusive block range into consecutive pages of at most blockRange blocks
+export function logPages(fromBlock: bigint, toBlock: bigint, blockRange: bigint = LOG_BLOCK_RANGE): LogPage[] {
+  if (blockRange < 1n) {
+    throw new Error('blockRange must be at least 1');
+  }
+  const pages: LogPage[] = [];
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = start + blockRange - 1n;
+    pages.push({ fromBlock: start, toBlock: end < toBlock ? end : toBlock });
+  }
+  return pages;
+}
@@ -0,0 +1,161 @@
+import type { Address, Hex } from 'viem';
+
+// Operations the relayer can perform on behalf of a delegated EOA
+export type RelayOperation = 'stake' | 'unstake';
+
+// Status of a relayer transaction, or of one relay in a batched transaction
+export type RelayStatus = 'pending' | 'confirmed' | 'failed';
+
+// Every code a failed RelayResponse can carry
+export type RelayErrorCode =
+  // StakerWallet and token reverts found by pre-flight simulation
+  | 'ONLY_RELAYER'
+  | 'AMOUNT_TOO_HIGH'
+  | 'LENGTH_MISMATCH'
+  | 'INSUFFICIENT_STAKE_BALANCE'
+  | 'INSUFFICIENT_TOKEN_BALANCE'
+  | 'INSUFFICIENT_TOKEN_ALLOWANCE'
+  | 'TOKEN_TRANSFER_FAILED'
+  | 'EXECUTION_REVERTED'
+  | 'SIMULATION_FAILED'
+  // Request and relayer checks
+  | 'INVALID_JSON'
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'ORIGIN_NOT_ALLOWED'
+  | 'METHOD_NOT_ALLOWED'
+  | 'UNSUPPORTED_CHAIN'
+  | 'CONTRACT_NOT_ALLOWED'
+  | 'TOO_MANY_CHOICES'
+  | 'CHOICE_NOT_APPROVED'
+  | 'INVALID_AUTHORIZATION'
+  | 'INVALID_INTENT'
+  | 'INTENT_EXPIRED'
+  | 'EOA_NOT_DELEGATED'
+  | 'EOA_ALREADY_DELEGATED'
+  | 'COMMITMENTS_DISABLED'
+  | 'COMMITMENT_REQUIRED'
+  | 'COMMITMENT_NOT_FOUND'
+  | 'COMMITMENT_MISMATCH'
+  | 'COMMITMENT_EXISTS'
+  | 'INVALID_COMMITMENT'
+  | 'COMMITMENT_EXPIRED'
+  | 'STALE_NONCE'
+  | 'POLICY_VIOLATION'
+  | 'RELAYER_UNDERFUNDED'
+  | 'BATCHING_MISCONFIGURED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'FAUCET_DISABLED'
+  | 'FAUCET_COOLDOWN'
+  | 'RATE_LIMITED'
+  | 'IDEMPOTENCY_KEY_REUSED'
+  | 'BROADCAST_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * EIP-7702 authorization as it travels in JSON. serializeAuthorization sends
+ * the nonce as a decimal string; the relayer accepts numbers too.
+ */
+export interface RelayAuthorization {
+  address: Address;
+  chainId: number | string;
+  nonce: number | string;
+  r: Hex;
+  s: Hex;
+  yParity: number;
+}
+
+/**
+ * Signed proof that an already-delegated EOA wants this operation relayed.
+ * Stands in for the EIP-7702 authorization once the EOA's code already
+ * points at the StakerWallet.
+ */
+export interface RelayIntent {
+  eoa: Address;
+  chainId: number;
+  deadline: number; // Unix timestamp in seconds
+  signature: Hex; // EIP-191 signature over hashRelayIntent(...)
+}
+
+// Wire format of POST /v1/relay
+export interface RelayRequest {
+  operation?: RelayOperation; // Defaults to 'stake'
+  authorization?: RelayAuthorization; // Omit for EOAs already delegated to the StakerWallet and send intent instead
+  intent?: RelayIntent;
+  choiceIds: string[]; // Decimal uint256 choice IDs
+  amounts: string[]; // Decimal uint256 amounts to stake (or unstake) in wei
+  reveal?: { salt: Hex }; // Required with authorization when the chain has a CommitmentStore
+  dryRun?: boolean; // Simulate and estimate gas without broadcasting
+}
+
+// Body of every POST response; failures carry error, code and details instead of txHash
+export interface RelayResponse {
+  success: boolean;
+  txHash?: Hex;
+  dryRun?: boolean;
+  duplicate?: boolean; // A repeat of an earlier request; txHash is the original transaction
+  status?: RelayStatus; // Current status of that original transaction
+  minedHash?: Hex; // Hash actually mined, if a fee-bumped replacement of txHash won
+  batchIndex?: number; // This relay's call in a batched transaction, see CallExecuted
+  error?: string;
+  code?: RelayErrorCode; // Stable machine-readable error code, e.g. INSUFFICIENT_TOKEN_BALANCE
+  details?: unknown;
+}
+
+// Wire format of POST /v1/commitments
+export interface CommitmentRequest {
+  eoa: Address;
+  chainId: number;
+  nonce: number; // The EOA's current nonce, which its authorization will use
+  commitment: Hex; // hashRelayCommitment(...) of the operation to be relayed
+  expiresAt: number; // Unix timestamp, at most COMMITMENT_MAX_TTL_SECONDS out
+  signature: Hex; // EIP-191 signature by eoa over hashCommitmentApproval(...)
+}
+
+// Wire format of POST /v1/faucet
+export interface FaucetRequest {
+  address: Address;
+  chainId: number;
+}
+
+// One chain's entry in GET /v1/config; amounts are decimal wei strings
+export interface RelayerChainConfig {
+  chainId: number;
+  name: string;
+  stakerWallet: Address;
+  choiceSource: 'onchain' | 'static';
+  approvedChoiceIds: string[];
+  maxStakePerTx: string; // The lower of the sponsorship policy and the StakerWallet limit
+  maxStakePerChoice: string | null;
+  campaigns: { name: string; start: string; end: string }[]; // ISO 8601 windows
+  commitmentStore: Address | null;
+  faucet: { amount: string; cooldownSeconds: number } | null;
+  batching: { executor: Address; windowMs: number; maxSize: number } | null;
+}
+
+// Body of GET /v1/config
+export interface RelayerConfig {
+  chains: RelayerChainConfig[];
+}
+
+// Lifecycle of a relayer transaction, in the order they can happen
+export type RelayEventType = 'submitted' | 'replaced' | 'included' | 'confirmed' | 'failed';
+
+/**
+ * One step in the lifecycle of a relayer nonce, as sent on
+ * GET /v1/relay/:txHash/events and to webhooks.
+ */
+export interface RelayEvent {
+  type: RelayEventType;
+  chainId: number;
+  nonce: number;
+  txHash: Hex; // First hash sent for the nonce, as returned by POST /v1/relay
+  hash: Hex; // The replacement for `replaced`, the mined hash from `included` onwards, else txHash
+  at: number; // Unix ms
+  blockNumber?: string;
+  gasUsed?: string;
+  confirmations?: number; // Blocks on top of and including the inclusion block
+  batchResults?: boolean[]; // Per-call success of a batched transaction
+  batchIndex?: number; // Set on events narrowed to one relay of a batch
+}